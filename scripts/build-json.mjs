@@ -0,0 +1,19 @@
+// Writes the language-neutral registry artifacts published as package subpath
+// exports. Runs after tsup, from the freshly built dist/ modules.
+import { readFileSync, writeFileSync } from 'node:fs';
+
+import { MODEL_CONFIGS } from '../dist/index.js';
+import { openApiSchemas, registryJsonSchema } from '../dist/schemas.js';
+
+const { version } = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+const write = (file, value) =>
+  writeFileSync(new URL(`../dist/${file}`, import.meta.url), `${JSON.stringify(value, null, 2)}\n`);
+
+write('registry.json', MODEL_CONFIGS);
+write('registry.schema.json', registryJsonSchema());
+write('openapi.json', {
+  openapi: '3.0.3',
+  info: { title: 'llm-zoo model registry', version },
+  paths: {},
+  components: { schemas: openApiSchemas() },
+});
@@ -31,6 +31,83 @@ export enum ReasoningEffort {
   NONE = 'none',
 }
 
+/**
+ * Default reasoning overhead: expected billed output tokens (visible output
+ * plus hidden thinking) per visible output token at each effort level.
+ * Models override individual levels through `reasoningOverhead`.
+ */
+export const DEFAULT_REASONING_OVERHEAD: Record<ReasoningEffort, number> = {
+  [ReasoningEffort.MAX]: 10,
+  [ReasoningEffort.XHIGH]: 7,
+  [ReasoningEffort.HIGH]: 5,
+  [ReasoningEffort.MEDIUM]: 3,
+  [ReasoningEffort.LOW]: 1.5,
+  [ReasoningEffort.NONE]: 1,
+};
+
+/**
+ * Prompt cache lifetimes with distinct write pricing.
+ * Anthropic bills 5-minute and 1-hour cache writes at different premiums.
+ */
+export type CacheTtl = '5m' | '1h';
+
+/**
+ * How a request is submitted for pricing purposes: interactively, or through
+ * the provider's asynchronous Batch API.
+ */
+export type PricingMode = 'standard' | 'batch';
+
+/**
+ * Processing tiers a provider offers for the same model: Flex trades latency
+ * for a discount, Fast (formerly Priority) buys speed for a premium.
+ */
+export type ServiceTier = 'flex' | 'standard' | 'fast';
+
+/**
+ * Wire protocol of an API endpoint: OpenAI-compatible Chat Completions,
+ * OpenAI Responses, Anthropic Messages or the Gemini API.
+ */
+export type ApiProtocol = 'openai-chat' | 'openai-responses' | 'anthropic-messages' | 'gemini';
+
+/**
+ * How the API key is sent: `Authorization: Bearer <key>`, or the raw key in
+ * Anthropic's `x-api-key` or Google's `x-goog-api-key` header.
+ */
+export type AuthScheme = 'bearer' | 'x-api-key' | 'x-goog-api-key';
+
+/**
+ * Default API endpoint of a provider. A model's `baseUrl` and
+ * `requiresResponsesAPI` override it for that model.
+ */
+export interface ProviderEndpoint {
+  /** Base URL requests are sent to */
+  baseUrl: string;
+
+  /** Wire protocol the endpoint speaks */
+  protocol: ApiProtocol;
+
+  /** How the API key is sent */
+  auth: AuthScheme;
+
+  /** Environment variables conventionally holding the API key, preferred first */
+  envVars: readonly string[];
+}
+
+/**
+ * Where a model can be called: the provider's own API (`direct`), a
+ * marketplace or cloud that resells it, or a subscription-backed client.
+ */
+export type Platform =
+  | 'direct'
+  | 'openrouter'
+  | 'bedrock'
+  | 'vertex'
+  | 'azure'
+  | 'copilot'
+  | 'vscode-lm'
+  | 'codex'
+  | 'kimi-code';
+
 /**
  * Supported language model providers.
  * Each provider has specific API formats, capabilities, and pricing structures.
@@ -100,6 +177,19 @@ export interface ModelCapabilities {
    */
   cacheDiscountFactor: number;
 
+  /**
+   * Cost multipliers for writing tokens to the prompt cache, keyed by TTL.
+   * TTLs without an entry bill cache writes at the normal input price.
+   * Example: `{ '5m': 1.25, '1h': 2 }` for Anthropic's write premiums.
+   */
+  cacheWriteFactors?: Partial<Record<CacheTtl, number>>;
+
+  /**
+   * Hourly storage cost per million cached tokens in USD, for providers that
+   * bill explicit caches by storage time (e.g., Gemini context caching).
+   */
+  cacheStoragePrice?: number;
+
   /** Whether the model supports extended reasoning/thinking */
   supportsReasoning: boolean;
 
@@ -133,6 +223,22 @@ export interface ModelCapabilities {
   /** Exact reasoning effort values accepted by the model, when known */
   supportedReasoningEfforts?: readonly ReasoningEffort[];
 
+  /**
+   * Effort values the provider accepts for compatibility but runs as another
+   * level, keyed by the value sent. They are not listed in
+   * `supportedReasoningEfforts`.
+   * Example: DeepSeek V4 Flash accepts `medium` and `xhigh` and runs `high`.
+   */
+  reasoningEffortAliases?: Partial<Record<ReasoningEffort, ReasoningEffort>>;
+
+  /**
+   * Expected billed output tokens per visible output token at each effort,
+   * used to budget hidden thinking. Missing levels fall back to
+   * `DEFAULT_REASONING_OVERHEAD`.
+   * Example: `{ high: 3.5 }` budgets 2.5 thinking tokens per answer token.
+   */
+  reasoningOverhead?: Partial<Record<ReasoningEffort, number>>;
+
   /**
    * Reasoning mode the request must send for this registry entry, when the
    * provider exposes one beyond the default. OpenAI's Responses API accepts
@@ -195,6 +301,161 @@ export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
   supportsNativeAudio: false,
 };
 
+/**
+ * Provider charges for native (server-side) tools, billed on top of tokens.
+ * A tool without an entry has no published price in the registry; 0 means
+ * the tool is billed through tokens only.
+ * Example: Anthropic charges $10 per 1,000 web searches.
+ */
+export interface ToolPricing {
+  /** Cost per 1,000 native web search calls in USD */
+  webSearchPerThousand?: number;
+
+  /** Cost per hour of native code execution container time in USD */
+  codeExecutionPerHour?: number;
+
+  /** Cost per native code execution session (container) in USD */
+  codeExecutionPerSession?: number;
+
+  /** Cost per 1,000 native MCP server tool calls in USD */
+  mcpCallPerThousand?: number;
+}
+
+/**
+ * How an input image is converted to billed input tokens.
+ * - `pixels`: `width * height / pixelsPerToken`, capped at `maxTokens` (Anthropic)
+ * - `tiles`: fit within `maxDimension`, shrink the short side to `shortSide`,
+ *   then `baseTokens + tokensPerTile` per `tileSize` square (OpenAI, Gemini 2.5)
+ * - `flat`: a fixed `tokensPerImage` regardless of size (Gemini 3)
+ */
+export type ImageTokenRule =
+  | { kind: 'pixels'; pixelsPerToken: number; maxTokens: number }
+  | {
+      kind: 'tiles';
+      tileSize: number;
+      tokensPerTile: number;
+      baseTokens: number;
+      maxDimension?: number;
+      shortSide?: number;
+    }
+  | { kind: 'flat'; tokensPerImage: number };
+
+/**
+ * Token conversion and pricing rules for non-text input.
+ * Converted tokens are billed at the input price unless a modality has its
+ * own rate. A modality without a rule has no published conversion.
+ * Example: Gemini 2.5 Flash bills audio at 32 tokens/second and $1.00 / 1M.
+ */
+export interface ModalityPricing {
+  /** Image token formula */
+  image?: ImageTokenRule;
+
+  /** Input tokens per second of audio */
+  audioTokensPerSecond?: number;
+
+  /**
+   * Cost per million audio input tokens in USD, when audio is billed above
+   * the text input price. Scales with tiers, schedules and batch discounts.
+   */
+  audioInputPrice?: number;
+
+  /** Input tokens per PDF page (extracted text plus page image) */
+  pdfTokensPerPage?: number;
+
+  /** Input tokens per second of video, including its audio track */
+  videoTokensPerSecond?: number;
+}
+
+/**
+ * Pricing and availability of one service tier of a model.
+ * Multipliers apply to the standard-tier rates of the same model; a tier
+ * with its own registry entry links it through `model`, and that entry's
+ * rates are used instead.
+ * Example: OpenAI Flex processing bills 0.5x the Standard rates.
+ */
+export interface ServiceTierPricing {
+  /** Tier name as sent in the request */
+  tier: ServiceTier;
+
+  /** Multiplier on the standard-tier input price */
+  inputMultiplier: number;
+
+  /** Multiplier on the standard-tier output price */
+  outputMultiplier: number;
+
+  /** Whether requests can use this tier for the model */
+  available: boolean;
+
+  /** Registry key of the entry that represents this tier, if any */
+  model?: string;
+}
+
+/**
+ * Long-context pricing tier.
+ * Applies when the prompt (uncached plus cached input tokens) exceeds
+ * `aboveInputTokens`; below every tier threshold the model's base
+ * `inputPrice` / `outputPrice` apply.
+ * Example: Gemini 2.5 Pro bills prompts over 200K tokens at $2.50 / $15.
+ */
+export interface PricingTier {
+  /** Prompt size in tokens above which this tier's rates apply */
+  aboveInputTokens: number;
+
+  /** Cost per million input tokens in USD within this tier */
+  inputPrice: number;
+
+  /** Cost per million output tokens in USD within this tier */
+  outputPrice: number;
+}
+
+/**
+ * Dated price window, such as introductory or promotional pricing.
+ * Dates are inclusive UTC calendar days in `YYYY-MM-DD` form; an omitted
+ * bound leaves the window open on that side.
+ * Example: Sonnet 5 was priced at $2 / $10 through 2026-08-31.
+ */
+export interface PriceWindow {
+  /** First day the window's prices apply */
+  from?: string;
+
+  /** Last day the window's prices apply */
+  until?: string;
+
+  /** Cost per million input tokens in USD within the window */
+  inputPrice: number;
+
+  /** Cost per million output tokens in USD within the window */
+  outputPrice: number;
+
+  /**
+   * Long-context tiers within the window, replacing the model's own
+   * `pricingTiers` while it is in effect
+   */
+  pricingTiers?: readonly PricingTier[];
+}
+
+/**
+ * How one platform serves a model. Region and price fields are only set
+ * where the platform differs from the provider's API.
+ * Example: Bedrock calls Sonnet 4.5 `anthropic.claude-sonnet-4-5-20250929-v1:0`.
+ */
+export interface PlatformAvailability {
+  /** Model identifier sent to the platform */
+  id: string;
+
+  /** Endpoint for this model on the platform, when it has its own */
+  baseUrl?: string;
+
+  /** Regions serving the model; absence means every region of the platform */
+  regions?: readonly string[];
+
+  /** Cost per million input tokens in USD on this platform */
+  inputPrice?: number;
+
+  /** Cost per million output tokens in USD on this platform */
+  outputPrice?: number;
+}
+
 /**
  * Complete configuration for a language model.
  * Contains all metadata needed to work with the model including
@@ -226,12 +487,43 @@ export interface ModelConfig {
   /** Maximum tokens the model can generate in a single response */
   maxOutputTokens: number;
 
-  /** Cost per million input tokens in USD */
+  /**
+   * Cost per million input tokens in USD.
+   * Standard list price; `priceSchedule` windows override it on the dates
+   * they cover.
+   */
   inputPrice: number;
 
-  /** Cost per million output tokens in USD */
+  /** Cost per million output tokens in USD (standard list price) */
   outputPrice: number;
 
+  /**
+   * Long-context pricing tiers, ordered by ascending threshold.
+   * `inputPrice` / `outputPrice` are the rates below the first threshold.
+   */
+  pricingTiers?: readonly PricingTier[];
+
+  /**
+   * Dated price windows (introductory, promotional, or pre-cut launch
+   * pricing). The first window covering a date wins; dates outside every
+   * window use the standard prices.
+   */
+  priceSchedule?: readonly PriceWindow[];
+
+  /**
+   * Cost multiplier for requests sent through the provider's Batch API
+   * (0.0-1.0), applied to every token price. Absence means the model has no
+   * batch endpoint.
+   * Example: 0.5 means batch requests cost 50% of the interactive price.
+   */
+  batchDiscountFactor?: number;
+
+  /** Charges for native tools such as web search and code execution */
+  toolPricing?: ToolPricing;
+
+  /** Token conversion and pricing for image, audio, PDF and video input */
+  modalityPricing?: ModalityPricing;
+
   /** Maximum context window size in tokens */
   contextWindow: number;
 
@@ -261,7 +553,7 @@ export interface ModelConfig {
 
   /**
    * Custom base URL for this specific model.
-   * Overrides the provider's default endpoint.
+   * Overrides the provider's default endpoint in `PROVIDER_ENDPOINTS`.
    */
   baseUrl?: string;
 
@@ -283,6 +575,21 @@ export interface ModelConfig {
    */
   serviceTier?: 'fast';
 
+  /**
+   * Service tiers offered for this model, including `standard`, with their
+   * price multipliers. Absence means only the standard tier is known.
+   */
+  serviceTiers?: readonly ServiceTierPricing[];
+
+  /**
+   * Platforms serving this model with their wire ids, keyed by platform.
+   * When absent, `platforms()` derives the map from `openRouterOnly`,
+   * `openrouterFullName`, `copilotFullName`, `vscodeLMFullName`,
+   * `codexSubscription` and `kimiSubscription`; when present it is complete.
+   * Bedrock, Vertex and Azure are only listed through an explicit map.
+   */
+  platforms?: Partial<Record<Platform, PlatformAvailability>>;
+
   /**
    * Human-friendly display name for the model.
    * Used as the label in model dropdowns so users can identify models at a glance.
@@ -323,4 +630,36 @@ export interface ModelConfig {
    * @default false
    */
   retired?: boolean;
+
+  /** Date the model became generally available (UTC, `YYYY-MM-DD`) */
+  releaseDate?: string;
+
+  /** Date the provider announced the deprecation (UTC, `YYYY-MM-DD`) */
+  deprecationDate?: string;
+
+  /**
+   * Date the provider's own API stops serving the model (UTC, `YYYY-MM-DD`).
+   * When set, it decides `retired()` and `active()` for any point in time;
+   * the `retired` flag only describes models without a date.
+   */
+  retirementDate?: string;
+
+  /**
+   * Registry name of the base entry when this entry is a variant of the same
+   * model with a different request shape: thinking on, pro mode or a faster
+   * service tier. Example: `'opus5'` on `opus5T`.
+   */
+  variantOf?: string;
+
+  /**
+   * Product line this model belongs to, shared across versions and variants.
+   * Example: `'claude-opus'` for every Opus release, thinking or not.
+   */
+  family?: string;
+
+  /** Registry name of the model that replaces this one */
+  supersededBy?: string;
+
+  /** Registry name of the model this one replaces */
+  successorOf?: string;
 }
@@ -24,8 +24,11 @@ import {
   COPILOT_MODELS,
   COPILOT_MODEL_IDS,
   COPILOT_MODEL_NAMES,
+  COPILOT_MODEL_NAME_MAP,
+  COPILOT_MODEL_ID_MAP,
   type CopilotModelId,
   type CopilotModelName,
+  PROVIDER_ENDPOINTS,
 } from './providers';
 
 /**
@@ -91,6 +94,9 @@ export {
   COPILOT_MODELS,
   COPILOT_MODEL_IDS,
   COPILOT_MODEL_NAMES,
+  COPILOT_MODEL_NAME_MAP,
+  COPILOT_MODEL_ID_MAP,
   type CopilotModelId,
   type CopilotModelName,
+  PROVIDER_ENDPOINTS,
 };
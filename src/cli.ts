@@ -0,0 +1,288 @@
+/**
+ * `llm-zoo` command-line interface: look up models, price requests and pick
+ * the cheapest fit from a shell, printing tables, JSON or CSV.
+ *
+ * @example
+ * ```sh
+ * npx llm-zoo show sonnet46
+ * npx llm-zoo cost gpt56 --input 10000 --output 2000 --cached 8000
+ * npx llm-zoo compare sonnet46 gpt56 gemini31p --input 10000 --output 2000 --format csv
+ * npx llm-zoo cheapest --vision --reasoning --min-context 200000
+ * npx llm-zoo list --provider anthropic --active --format json
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { parseArgs } from 'node:util';
+import { ModelCapabilities, ModelConfig, ModelProvider, PricingMode } from './ModelConfig';
+import {
+  active,
+  cheapest,
+  compareCosts,
+  costBreakdown,
+  didYouMean,
+  from,
+  isDeprecated,
+  isRetired,
+  lookup,
+  rates,
+  resolve,
+  TokenUsage,
+} from './utils';
+import { MODEL_CONFIGS } from './ModelRegistry';
+
+const USAGE = `Usage: llm-zoo <command> [options]
+
+Commands:
+  show <model>                 Show a model's configuration
+  cost <model>                 Price a request (--input, --output, --cached, --batch)
+  compare <model> <model>...   Compare request cost across models (same flags as cost)
+  cheapest                     Cheapest model with the given capabilities
+  list                         List models (--provider, --active)
+
+Options:
+  --format <table|json|csv>    Output format (default: table)
+  --input <tokens>             Prompt tokens (default: 0)
+  --output <tokens>            Generated tokens (default: 0)
+  --cached <tokens>            Prompt tokens read from the cache
+  --batch                      Use Batch API prices
+  --provider <provider>        Restrict to a provider, e.g. anthropic
+  --active                     Only models that are not retired
+  --min-context <tokens>       Minimum context window (cheapest)
+  --vision, --reasoning, --tools, --web-search, --code-execution, --pdf, --caching
+                               Required capabilities (cheapest)
+  -h, --help                   Show this help
+`;
+
+/** Capability flags accepted by `cheapest` */
+const CAPABILITY_FLAGS = {
+  vision: 'supportsVision',
+  reasoning: 'supportsReasoning',
+  tools: 'supportsFunctionCalling',
+  'web-search': 'supportsNativeWebSearch',
+  'code-execution': 'supportsNativeCodeExecution',
+  pdf: 'supportsNativePdf',
+  caching: 'supportsPromptCaching',
+} as const satisfies Record<string, keyof ModelCapabilities>;
+
+type Format = 'table' | 'json' | 'csv';
+type Cell = string | number | boolean | undefined;
+type Row = Record<string, Cell>;
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'table' },
+      input: { type: 'string' },
+      output: { type: 'string' },
+      cached: { type: 'string' },
+      batch: { type: 'boolean' },
+      provider: { type: 'string' },
+      active: { type: 'boolean' },
+      'min-context': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...Object.fromEntries(
+        Object.keys(CAPABILITY_FLAGS).map((flag) => [flag, { type: 'boolean' as const }]),
+      ),
+    },
+  });
+}
+
+type Values = ReturnType<typeof parseCommandLine>['values'];
+
+function count(values: Values, flag: 'input' | 'output' | 'cached' | 'min-context'): number {
+  const raw = values[flag];
+  if (raw === undefined) return 0;
+  const parsed = Number(raw);
+  if (typeof raw !== 'string' || !Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${flag} must be a non-negative number, got ${raw}`);
+  }
+  return parsed;
+}
+
+function modelNamed(name: string): ModelConfig {
+  const model = lookup(name) ?? resolve(name);
+  if (!model) throw new Error(`Unknown model: ${name}${didYouMean(name)}`);
+  return model;
+}
+
+function providerNamed(name: string): ModelProvider {
+  const provider = Object.values(ModelProvider).find((p) => p === name.toLowerCase());
+  if (!provider) {
+    throw new Error(
+      `Unknown provider: ${name} (one of ${Object.values(ModelProvider).join(', ')})`,
+    );
+  }
+  return provider;
+}
+
+function usageOf(values: Values): TokenUsage {
+  const cached = count(values, 'cached');
+  return {
+    input: count(values, 'input'),
+    output: count(values, 'output'),
+    ...(cached > 0 && { cached }),
+  };
+}
+
+/** Lifecycle status today, from the same dates as `active()` and `retired()` */
+function status(model: ModelConfig): string {
+  if (isRetired(model)) return 'retired';
+  if (isDeprecated(model)) return 'deprecated';
+  const today = new Date().toISOString().slice(0, 10);
+  return model.releaseDate !== undefined && model.releaseDate > today ? 'unreleased' : 'active';
+}
+
+/** Overview row with the prices `cheapest` ranks by; blank without batch pricing */
+function summary(model: ModelConfig, mode: PricingMode): Row {
+  const prices =
+    mode === 'batch' && model.batchDiscountFactor === undefined
+      ? undefined
+      : rates(model, { mode });
+  return {
+    name: model.name,
+    label: model.label,
+    provider: model.provider,
+    inputPrice: prices?.inputPrice,
+    outputPrice: prices?.outputPrice,
+    contextWindow: model.contextWindow,
+    maxOutputTokens: model.maxOutputTokens,
+    status: status(model),
+  };
+}
+
+/** Flatten a config into `field` / `value` rows, nested fields dotted */
+function fields(value: unknown, prefix = ''): Row[] {
+  if (typeof value !== 'object' || value === null) {
+    return [{ field: prefix, value: value as Cell }];
+  }
+  if (Array.isArray(value)) {
+    return [{ field: prefix, value: value.map((v) => JSON.stringify(v)).join(' ') }];
+  }
+  return Object.entries(value).flatMap(([key, v]) => fields(v, prefix ? `${prefix}.${key}` : key));
+}
+
+function round(usd: number): number {
+  return Math.round(usd * 1e6) / 1e6;
+}
+
+/**
+ * Run a command and return its result: rows for table and CSV output, and
+ * the value printed as JSON.
+ */
+function execute(command: string, models: string[], values: Values) {
+  const mode: PricingMode = values.batch ? 'batch' : 'standard';
+  switch (command) {
+    case 'show': {
+      if (models.length !== 1) throw new Error('show takes one model');
+      const model = modelNamed(models[0]!);
+      return { rows: fields(model), json: model };
+    }
+    case 'cost': {
+      if (models.length !== 1) throw new Error('cost takes one model');
+      const model = modelNamed(models[0]!);
+      const breakdown = costBreakdown(model, usageOf(values), { mode });
+      const row: Row = { model: model.name };
+      for (const [item, usd] of Object.entries(breakdown)) row[item] = round(usd);
+      return { rows: [row], json: row };
+    }
+    case 'compare': {
+      if (models.length < 2) throw new Error('compare takes two or more models');
+      const configs = models.map(modelNamed);
+      const compared = compareCosts(configs, usageOf(values), { mode });
+      for (const model of configs.filter((m) => !compared.some((c) => c.model === m))) {
+        process.stderr.write(`llm-zoo: skipped ${model.name}, which has no batch pricing\n`);
+      }
+      const rows = compared.map(({ model, cost }): Row => ({
+        model: model.name,
+        provider: model.provider,
+        cost: round(cost),
+      }));
+      return { rows, json: rows };
+    }
+    case 'cheapest': {
+      const capabilities: Partial<ModelCapabilities> = {};
+      for (const [flag, capability] of Object.entries(CAPABILITY_FLAGS)) {
+        if (values[flag as keyof Values]) capabilities[capability] = true;
+      }
+      const model = cheapest(capabilities, {
+        mode,
+        ...(values['min-context'] !== undefined && { minContext: count(values, 'min-context') }),
+        ...(values.provider !== undefined && { provider: providerNamed(values.provider) }),
+      });
+      if (!model) throw new Error('No model meets the requirements');
+      return { rows: [summary(model, mode)], json: summary(model, mode) };
+    }
+    case 'list': {
+      let list = values.active ? active() : Object.values(MODEL_CONFIGS);
+      if (values.provider !== undefined) {
+        const provider = from(providerNamed(values.provider));
+        list = list.filter((m) => provider.includes(m));
+      }
+      const rows = list.map((model) => summary(model, mode));
+      return { rows, json: rows };
+    }
+    default:
+      throw new Error(`Unknown command: ${command} (run llm-zoo --help)`);
+  }
+}
+
+function csvCell(value: Cell): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function render(rows: Row[], json: unknown, format: Format): string {
+  if (format === 'json') return `${JSON.stringify(json, null, 2)}\n`;
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cells = rows.map((row) => columns.map((c) => (row[c] === undefined ? '' : String(row[c]))));
+  if (format === 'csv') {
+    const lines = [columns, ...rows.map((row) => columns.map((c) => row[c]))];
+    return lines.map((line) => line.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((line) => line[i]!.length)));
+  const line = (values: string[]) =>
+    values
+      .map((v, i) => v.padEnd(widths[i]!))
+      .join('  ')
+      .trimEnd();
+  return (
+    [line(columns), line(widths.map((w) => '-'.repeat(w))), ...cells.map(line)].join('\n') + '\n'
+  );
+}
+
+/**
+ * Run the CLI with the given arguments and return the process exit code.
+ */
+export function main(argv: string[]): number {
+  try {
+    const { values, positionals } = parseCommandLine(argv);
+    const [command, ...models] = positionals;
+    if (values.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    if (command === undefined) {
+      process.stderr.write(USAGE);
+      return 1;
+    }
+
+    const format = values.format as Format;
+    if (!['table', 'json', 'csv'].includes(format)) {
+      throw new Error(`--format must be table, json or csv, got ${format}`);
+    }
+    const { rows, json } = execute(command, models, values);
+    process.stdout.write(render(rows, json, format));
+    return 0;
+  } catch (error) {
+    process.stderr.write(`llm-zoo: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -22,8 +22,31 @@
  */
 
 // Core types (use `export type` for isolatedModules compatibility)
-export type { ModelConfig, ModelCapabilities } from './ModelConfig';
-export { ModelProvider, ReasoningEffort, DEFAULT_MODEL_CAPABILITIES, DEFAULT_CONTEXT_WINDOW } from './ModelConfig';
+export type {
+  ModelConfig,
+  ModelCapabilities,
+  PricingTier,
+  PriceWindow,
+  CacheTtl,
+  PricingMode,
+  ToolPricing,
+  ModalityPricing,
+  ImageTokenRule,
+  ServiceTier,
+  ServiceTierPricing,
+  Platform,
+  PlatformAvailability,
+  ApiProtocol,
+  AuthScheme,
+  ProviderEndpoint,
+} from './ModelConfig';
+export {
+  ModelProvider,
+  ReasoningEffort,
+  DEFAULT_MODEL_CAPABILITIES,
+  DEFAULT_CONTEXT_WINDOW,
+  DEFAULT_REASONING_OVERHEAD,
+} from './ModelConfig';
 
 // Registry
 export {
@@ -41,8 +64,11 @@ export {
   COPILOT_MODELS,
   COPILOT_MODEL_IDS,
   COPILOT_MODEL_NAMES,
+  COPILOT_MODEL_NAME_MAP,
+  COPILOT_MODEL_ID_MAP,
   META_MODELS,
   OTHER_MODELS,
+  PROVIDER_ENDPOINTS,
 } from './ModelRegistry';
 export type { CopilotModelId, CopilotModelName } from './ModelRegistry';
 
@@ -51,6 +77,8 @@ export {
   // Lookup
   lookup,
   resolve,
+  resolution,
+  search,
   exists,
   // Filtering
   from,
@@ -59,12 +87,40 @@ export {
   withContext,
   directAccess,
   openRouterOnly,
+  platforms,
+  availableOn,
+  isRetired,
+  isDeprecated,
   retired,
   active,
+  upcomingRetirements,
+  // Lineage
+  latest,
+  successor,
+  upgradePath,
+  variants,
+  toggleThinking,
+  // Endpoints
+  endpointFor,
+  requestParams,
+  // Copilot Catalog
+  copilotModel,
+  reconcileCopilotModels,
+  // Reasoning Effort
+  effortsFor,
+  normalizeEffort,
   // Cost
+  rates,
+  tiers,
   cost,
+  costBreakdown,
   maxCost,
+  reasoningOverhead,
+  mediaTokens,
   compareCosts,
+  // Token Estimation
+  estimateTokens,
+  costForText,
   // Smart Selection
   cheapest,
   smartpick,
@@ -73,6 +129,10 @@ export {
   hint,
   // Insights
   insights,
+  // Integrity
+  validateRegistry,
+  // Custom Registries
+  createRegistry,
   // Legacy (deprecated)
   getModel,
   getModelByFullName,
@@ -86,5 +146,28 @@ export {
   findCheapestModel,
   getRegistryStats,
 } from './utils';
+export type {
+  IdentifierField,
+  IdentifierMatch,
+  Resolution,
+  SearchField,
+  SearchResult,
+  TokenUsage,
+  ToolUsage,
+  MediaUsage,
+  MediaTokens,
+  CostOptions,
+  CostBreakdown,
+  ChatMessage,
+  NormalizedEffort,
+  RequestParams,
+  RequestOptions,
+  RegistryRule,
+  RegistryFinding,
+  CopilotRuntimeModel,
+  CopilotReconciliation,
+  Registry,
+  ModelOverride,
+} from './utils';
 
 // Note: Zod schemas are available via 'llm-zoo/schemas' (requires zod peer dependency)
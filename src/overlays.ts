@@ -0,0 +1,270 @@
+/**
+ * Registry overlays: JSON or YAML documents that patch the built-in models
+ * without shipping code. Requires zod ^4.0.0 as peer dependency.
+ *
+ * An overlay lists models by registry name. Each entry is deep-merged onto
+ * the existing model (objects merge, arrays and scalars replace), or added
+ * when the name is new. `null` is a deletion marker: it removes a field, or
+ * the whole model when used as the entry itself.
+ *
+ * @example
+ * ```typescript
+ * import { applyOverlays, parseOverlay } from 'llm-zoo/overlays';
+ * import { parse as parseYaml } from 'yaml';
+ *
+ * const registry = applyOverlays([
+ *   parseOverlay(readFileSync('enterprise.yaml', 'utf8'), 'enterprise.yaml', parseYaml),
+ * ]);
+ * registry.lookup('sonnet46')?.inputPrice;   // → negotiated price
+ * registry.provenance('sonnet46', 'inputPrice'); // → 'enterprise.yaml'
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { ModelConfig } from './ModelConfig';
+import { MODEL_CONFIGS } from './ModelRegistry';
+import { ModelConfigSchema, ModelRegistrySchema } from './schemas';
+import { createRegistry, Registry } from './utils';
+
+// ============================================================================
+// Overlay Documents
+// ============================================================================
+
+/**
+ * Dotted paths of the fields in `value` that `schema` does not declare, at any
+ * depth. Zod strips unknown keys, so a misspelled field would otherwise pass
+ * validation and silently do nothing.
+ */
+function unknownFields(schema: z.ZodType, value: unknown, path = ''): string[] {
+  let inner = schema;
+  while ('innerType' in inner.def) inner = inner.def.innerType as z.ZodType;
+  const at = (key: string | number) => (path ? `${path}.${key}` : String(key));
+
+  if (inner instanceof z.ZodObject && isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, v]) => {
+      const field = inner.shape[key] as z.ZodType | undefined;
+      return field ? unknownFields(field, v, at(key)) : [at(key)];
+    });
+  }
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.flatMap((v, i) => unknownFields(inner.element as z.ZodType, v, at(i)));
+  }
+  if (inner instanceof z.ZodRecord && isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, v]) =>
+      unknownFields(inner.valueType as z.ZodType, v, at(key)),
+    );
+  }
+  if (inner instanceof z.ZodDiscriminatedUnion && isPlainObject(value)) {
+    const tag = value[inner.def.discriminator];
+    const option = inner.options.find(
+      (o) =>
+        o instanceof z.ZodObject && o.shape[inner.def.discriminator]?.def.values?.includes(tag),
+    );
+    return option ? unknownFields(option as z.ZodType, value, path) : [];
+  }
+  return [];
+}
+
+/**
+ * Patch for one model: any subset of its fields, `null` deleting a field.
+ * Fields the model schema does not declare are rejected.
+ */
+export const ModelPatchSchema = z.record(z.string(), z.unknown()).superRefine((patch, ctx) => {
+  for (const field of unknownFields(ModelConfigSchema, patch)) {
+    ctx.addIssue({ code: 'custom', message: `Unknown field ${field}`, path: field.split('.') });
+  }
+});
+
+/**
+ * Overlay document: model patches keyed by registry name, `null` deleting a
+ * model. A patch may only set `name` to its own key.
+ */
+export const RegistryOverlaySchema = z.object({
+  models: z.record(z.string(), ModelPatchSchema.nullable()).superRefine((models, ctx) => {
+    for (const [key, patch] of Object.entries(models)) {
+      if (patch?.name !== undefined && patch.name !== key) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `name ${String(patch.name)} does not match registry key ${key}`,
+          path: [key, 'name'],
+        });
+      }
+    }
+  }),
+});
+
+export type RegistryOverlayDocument = z.infer<typeof RegistryOverlaySchema>;
+
+/**
+ * A validated overlay document and where it came from.
+ */
+export interface RegistryOverlay extends RegistryOverlayDocument {
+  /** Name reported by provenance, usually the file path */
+  source: string;
+}
+
+/**
+ * Parse and validate an overlay document.
+ * JSON is parsed natively; pass a YAML parser (e.g. `parse` from the `yaml`
+ * package) for YAML sources, which are recognized by their extension.
+ *
+ * @example
+ * ```typescript
+ * const overlay = parseOverlay('{"models":{"gpt4o":null}}', 'retire-gpt4o.json');
+ * ```
+ */
+export function parseOverlay(
+  text: string,
+  source: string,
+  parse?: (text: string) => unknown,
+): RegistryOverlay {
+  if (!parse && /\.ya?ml$/i.test(source)) {
+    throw new Error(`Overlay ${source}: YAML overlays need a parser, e.g. parse from 'yaml'`);
+  }
+
+  let document: unknown;
+  try {
+    document = (parse ?? JSON.parse)(text);
+  } catch (error) {
+    throw new Error(`Overlay ${source}: ${(error as Error).message}`);
+  }
+  return { ...validated(RegistryOverlaySchema, document, `Overlay ${source}`), source };
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/** Field changed by an overlay, as reported by `OverlayRegistry.provenance()`. */
+export interface FieldProvenance {
+  /** Dotted field path, e.g. `capabilities.supportsNativePdf`; '' is the whole model */
+  path: string;
+  /** Overlay that last set or deleted the field */
+  source: string;
+  /** Whether the overlay deleted the field (or model) */
+  deleted: boolean;
+}
+
+/**
+ * A registry built from overlays, tracking which overlay changed each field.
+ * `provenance()` is the way to ask where a field came from: `lookup()` and
+ * the other helpers return plain model entries, which stay valid against
+ * `ModelConfigSchema` and compare equal to entries built without overlays.
+ */
+export type OverlayRegistry = Registry & {
+  /** Fields of a model changed by overlays, in the order they were applied */
+  provenance(name: string): FieldProvenance[];
+  /** Overlay that last changed a field of a model, including a parent object */
+  provenance(name: string, path: string): string | undefined;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validated<T extends z.ZodType>(schema: T, value: unknown, context: string): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`${context}: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Deep-merge a patch onto a value, recording each changed leaf path.
+ */
+function merge(
+  target: Record<string, unknown>,
+  patch: Record<string, unknown>,
+  prefix: string,
+  changed: (path: string, deleted: boolean) => void,
+): Record<string, unknown> {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value === null) {
+      delete result[key];
+      changed(path, true);
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = merge(result[key], value, path, changed);
+    } else {
+      result[key] = value;
+      changed(path, false);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply overlays in order onto the built-in models (or the models given) and
+ * return a registry of the result. Every merged model is validated against
+ * `ModelConfigSchema` and the whole table against `ModelRegistrySchema`;
+ * failures name the overlay responsible.
+ *
+ * @example
+ * ```typescript
+ * const registry = applyOverlays([
+ *   {
+ *     source: 'discounts.json',
+ *     models: {
+ *       sonnet46: { inputPrice: 2.7, outputPrice: 13.5 },
+ *       sonnet5: { priceSchedule: null },
+ *       gpt4o: null,
+ *     },
+ *   },
+ * ]);
+ * registry.provenance('sonnet46');
+ * // → [{ path: 'inputPrice', source: 'discounts.json', deleted: false }, ...]
+ * ```
+ */
+export function applyOverlays(
+  overlays: readonly RegistryOverlay[],
+  models: Record<string, ModelConfig> = MODEL_CONFIGS,
+): OverlayRegistry {
+  const configs: Record<string, ModelConfig> = { ...models };
+  const history = new Map<string, FieldProvenance[]>();
+  const record = (name: string, path: string, source: string, deleted: boolean) => {
+    const fields = (history.get(name) ?? []).filter((f) => f.path !== path);
+    fields.push({ path, source, deleted });
+    history.set(name, fields);
+  };
+
+  for (const overlay of overlays) {
+    validated(RegistryOverlaySchema, { models: overlay.models }, `Overlay ${overlay.source}`);
+    for (const [name, patch] of Object.entries(overlay.models)) {
+      if (patch === null) {
+        delete configs[name];
+        record(name, '', overlay.source, true);
+        continue;
+      }
+
+      const base = configs[name] ?? {};
+      const merged = merge(base as Record<string, unknown>, patch, '', (path, deleted) =>
+        record(name, path, overlay.source, deleted),
+      );
+      // Keep the parsed output so schema defaults fill fields older overlays omit
+      const parsed = validated(
+        ModelConfigSchema,
+        merged,
+        `Overlay ${overlay.source}: model ${name}`,
+      );
+      configs[name] = parsed as ModelConfig;
+    }
+  }
+  validated(ModelRegistrySchema, configs, 'Overlaid registry');
+
+  const registry = createRegistry(configs);
+  function provenance(name: string): FieldProvenance[];
+  function provenance(name: string, path: string): string | undefined;
+  function provenance(name: string, path?: string): FieldProvenance[] | string | undefined {
+    const fields = history.get(name) ?? [];
+    if (path === undefined) return fields;
+    return fields
+      .filter((f) => f.path === '' || f.path === path || path.startsWith(`${f.path}.`))
+      .at(-1)?.source;
+  }
+
+  return Object.assign(registry, { provenance });
+}
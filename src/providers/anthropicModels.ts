@@ -1,19 +1,24 @@
 import {
   DEFAULT_MODEL_CAPABILITIES,
+  ModalityPricing,
   ModelCapabilities,
   ModelConfig,
   ModelProvider,
+  PriceWindow,
   ReasoningEffort,
+  ToolPricing,
 } from '../ModelConfig';
 
 /**
  * Default capabilities for Anthropic Claude models.
- * Anthropic models feature excellent prompt caching with 90% cost savings.
+ * Anthropic models feature excellent prompt caching with 90% cost savings;
+ * cache writes cost 1.25x the input price for the 5-minute TTL and 2x for 1 hour.
  */
 const ANTHROPIC_DEFAULT_CAPABILITIES: ModelCapabilities = {
   ...DEFAULT_MODEL_CAPABILITIES,
   supportsPromptCaching: true,
   cacheDiscountFactor: 0.1,
+  cacheWriteFactors: { '5m': 1.25, '1h': 2.0 },
   supportsTokenCounting: true,
   supportsVision: true,
   supportsNativePdf: true,
@@ -23,6 +28,26 @@ const ANTHROPIC_DEFAULT_CAPABILITIES: ModelCapabilities = {
   supportsNativeCodeExecution: false,
 };
 
+/**
+ * Claude images cost about (width x height) / 750 tokens, capped at roughly
+ * 1,600 tokens once the image is downscaled. Each PDF page is billed as its
+ * extracted text plus a page image, typically up to 3,000 tokens.
+ */
+const ANTHROPIC_MODALITY_PRICING: ModalityPricing = {
+  image: { kind: 'pixels', pixelsPerToken: 750, maxTokens: 1600 },
+  pdfTokensPerPage: 3000,
+};
+
+/**
+ * Anthropic native tool charges: $10 per 1,000 web searches and $0.05 per
+ * container-hour of code execution. MCP connector calls bill as tokens only.
+ */
+const ANTHROPIC_TOOL_PRICING: ToolPricing = {
+  webSearchPerThousand: 10,
+  codeExecutionPerHour: 0.05,
+  mcpCallPerThousand: 0,
+};
+
 // Anthropic effort vocabularies are non-contiguous: 4.6 models accept
 // `max` but not the newer `xhigh` level.
 const ANTHROPIC_REASONING_EFFORTS = [
@@ -53,6 +78,11 @@ const OPUS_5_NON_THINKING_REASONING_EFFORTS = [
   ReasoningEffort.HIGH,
 ] as const;
 
+// Sonnet 5 launched at introductory pricing through 2026-08-31.
+const SONNET_5_INTRODUCTORY_PRICING: readonly PriceWindow[] = [
+  { until: '2026-08-31', inputPrice: 2.0, outputPrice: 10.0 },
+];
+
 /**
  * Anthropic Claude model configurations.
  * Includes Claude Fable 5, Claude Mythos 5, and 4.x/3.x Opus, Sonnet, and Haiku variants.
@@ -70,6 +100,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 10.0,
     outputPrice: 50.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -87,6 +120,7 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    family: 'claude-fable',
   },
   mythos5: {
     name: 'mythos5',
@@ -98,6 +132,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 10.0,
     outputPrice: 50.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -116,6 +153,7 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     },
     // Invitation-only via Project Glasswing; no OpenRouter or VS Code LM routing.
     openRouterOnly: false,
+    family: 'claude-mythos',
   },
   opus5T: {
     name: 'opus5T',
@@ -129,6 +167,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -145,6 +186,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    variantOf: 'opus5',
+    family: 'claude-opus',
+    successorOf: 'opus48T',
   },
   opus5: {
     name: 'opus5',
@@ -158,6 +202,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -170,6 +217,8 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportedReasoningEfforts: OPUS_5_NON_THINKING_REASONING_EFFORTS,
     },
     openRouterOnly: false,
+    family: 'claude-opus',
+    successorOf: 'opus48',
   },
   opus48T: {
     name: 'opus48T',
@@ -183,6 +232,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -200,6 +252,10 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    variantOf: 'opus48',
+    family: 'claude-opus',
+    supersededBy: 'opus5T',
+    successorOf: 'opus47T',
   },
   opus48: {
     name: 'opus48',
@@ -213,6 +269,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -227,6 +286,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'claude-opus',
+    supersededBy: 'opus5',
+    successorOf: 'opus47',
   },
   opus47T: {
     name: 'opus47T',
@@ -240,6 +302,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -257,6 +322,10 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    variantOf: 'opus47',
+    family: 'claude-opus',
+    supersededBy: 'opus48T',
+    successorOf: 'opus46T',
   },
   opus47: {
     name: 'opus47',
@@ -270,6 +339,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -284,6 +356,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'claude-opus',
+    supersededBy: 'opus48',
+    successorOf: 'opus46',
   },
   opus46T: {
     name: 'opus46T',
@@ -297,6 +372,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -313,7 +391,18 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-opus-4-6' },
+      openrouter: { id: 'anthropic/claude-opus-4.6' },
+      bedrock: { id: 'anthropic.claude-opus-4-6-v1' },
+      vertex: { id: 'claude-opus-4-6' },
+      'vscode-lm': { id: 'claude-opus-4.6' },
+    },
     deprecated: true,
+    variantOf: 'opus46',
+    family: 'claude-opus',
+    supersededBy: 'opus47T',
+    successorOf: 'opus45T',
   },
   opus46: {
     name: 'opus46',
@@ -327,6 +416,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -340,7 +432,17 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportedReasoningEfforts: ANTHROPIC_REASONING_EFFORTS_WITHOUT_XHIGH,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-opus-4-6' },
+      openrouter: { id: 'anthropic/claude-opus-4.6' },
+      bedrock: { id: 'anthropic.claude-opus-4-6-v1' },
+      vertex: { id: 'claude-opus-4-6' },
+      'vscode-lm': { id: 'claude-opus-4.6' },
+    },
     deprecated: true,
+    family: 'claude-opus',
+    supersededBy: 'opus47',
+    successorOf: 'opus45',
   },
   sonnet5T: {
     name: 'sonnet5T',
@@ -352,9 +454,12 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     provider: ModelProvider.ANTHROPIC,
     maxOutputTokens: 128000,
     contextWindow: 1000000,
-    // Introductory pricing through 2026-08-31; standard pricing is $3 / $15.
-    inputPrice: 2.0,
-    outputPrice: 10.0,
+    inputPrice: 3.0,
+    outputPrice: 15.0,
+    priceSchedule: SONNET_5_INTRODUCTORY_PRICING,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -370,6 +475,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    variantOf: 'sonnet5',
+    family: 'claude-sonnet',
+    successorOf: 'sonnet46T',
   },
   sonnet5: {
     name: 'sonnet5',
@@ -381,9 +489,12 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     provider: ModelProvider.ANTHROPIC,
     maxOutputTokens: 128000,
     contextWindow: 1000000,
-    // Introductory pricing through 2026-08-31; standard pricing is $3 / $15.
-    inputPrice: 2.0,
-    outputPrice: 10.0,
+    inputPrice: 3.0,
+    outputPrice: 15.0,
+    priceSchedule: SONNET_5_INTRODUCTORY_PRICING,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -397,6 +508,8 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportedReasoningEfforts: ANTHROPIC_REASONING_EFFORTS,
     },
     openRouterOnly: false,
+    family: 'claude-sonnet',
+    successorOf: 'sonnet46',
   },
   sonnet46T: {
     name: 'sonnet46T',
@@ -411,6 +524,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -426,7 +542,19 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-sonnet-4-6' },
+      openrouter: { id: 'anthropic/claude-sonnet-4.6' },
+      bedrock: { id: 'anthropic.claude-sonnet-4-6' },
+      vertex: { id: 'claude-sonnet-4-6' },
+      copilot: { id: 'claude-sonnet-4.6' },
+      'vscode-lm': { id: 'claude-sonnet-4.6' },
+    },
     deprecated: true,
+    variantOf: 'sonnet46',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet5T',
+    successorOf: 'sonnet45T',
   },
   sonnet46: {
     name: 'sonnet46',
@@ -441,6 +569,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -454,7 +585,18 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportedReasoningEfforts: ANTHROPIC_REASONING_EFFORTS_WITHOUT_XHIGH,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-sonnet-4-6' },
+      openrouter: { id: 'anthropic/claude-sonnet-4.6' },
+      bedrock: { id: 'anthropic.claude-sonnet-4-6' },
+      vertex: { id: 'claude-sonnet-4-6' },
+      copilot: { id: 'claude-sonnet-4.6' },
+      'vscode-lm': { id: 'claude-sonnet-4.6' },
+    },
     deprecated: true,
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet5',
+    successorOf: 'sonnet45',
   },
   opus45T: {
     name: 'opus45T',
@@ -468,6 +610,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -481,7 +626,19 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-opus-4-5' },
+      openrouter: { id: 'anthropic/claude-opus-4.5' },
+      bedrock: { id: 'anthropic.claude-opus-4-5-20251101-v1:0' },
+      vertex: { id: 'claude-opus-4-5@20251101' },
+      'vscode-lm': { id: 'claude-opus-4.5' },
+    },
     deprecated: true,
+    releaseDate: '2025-11-24',
+    variantOf: 'opus45',
+    family: 'claude-opus',
+    supersededBy: 'opus46T',
+    successorOf: 'opus41T',
   },
   opus45: {
     name: 'opus45',
@@ -495,6 +652,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -506,7 +666,18 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportedReasoningEfforts: OPUS_45_REASONING_EFFORTS,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-opus-4-5' },
+      openrouter: { id: 'anthropic/claude-opus-4.5' },
+      bedrock: { id: 'anthropic.claude-opus-4-5-20251101-v1:0' },
+      vertex: { id: 'claude-opus-4-5@20251101' },
+      'vscode-lm': { id: 'claude-opus-4.5' },
+    },
     deprecated: true,
+    releaseDate: '2025-11-24',
+    family: 'claude-opus',
+    supersededBy: 'opus46',
+    successorOf: 'opus41',
   },
   opus41T: {
     name: 'opus41T',
@@ -520,6 +691,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 15.0,
     outputPrice: 75.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -532,6 +706,11 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2025-08-05',
+    variantOf: 'opus41',
+    family: 'claude-opus',
+    supersededBy: 'opus45T',
+    successorOf: 'opus4T',
   },
   opus41: {
     name: 'opus41',
@@ -545,6 +724,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 15.0,
     outputPrice: 75.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -555,6 +737,10 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2025-08-05',
+    family: 'claude-opus',
+    supersededBy: 'opus45',
+    successorOf: 'opus4',
   },
   opus4T: {
     name: 'opus4T',
@@ -568,6 +754,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 15.0,
     outputPrice: 75.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -578,9 +767,16 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      vertex: { id: 'claude-opus-4@20250514' },
+    },
     deprecated: true,
     // Retired on the Claude API; still served on Google Cloud (Vertex).
     retired: true,
+    releaseDate: '2025-05-22',
+    variantOf: 'opus4',
+    family: 'claude-opus',
+    supersededBy: 'opus41T',
   },
   opus4: {
     name: 'opus4',
@@ -594,6 +790,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 15.0,
     outputPrice: 75.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -602,9 +801,16 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsReasoning: false,
     },
     openRouterOnly: false,
+    platforms: {
+      vertex: { id: 'claude-opus-4@20250514' },
+    },
     deprecated: true,
     // Retired on the Claude API; still served on Google Cloud (Vertex).
     retired: true,
+    releaseDate: '2025-05-22',
+    family: 'claude-opus',
+    supersededBy: 'opus41',
+    successorOf: 'opus3',
   },
   sonnet45T: {
     name: 'sonnet45T',
@@ -617,6 +823,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -626,7 +835,18 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-sonnet-4-5' },
+      openrouter: { id: 'anthropic/claude-sonnet-4.5:thinking' },
+      bedrock: { id: 'anthropic.claude-sonnet-4-5-20250929-v1:0' },
+      vertex: { id: 'claude-sonnet-4-5@20250929' },
+    },
     deprecated: true,
+    releaseDate: '2025-09-29',
+    variantOf: 'sonnet45',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet46T',
+    successorOf: 'sonnet4T',
   },
   sonnet45: {
     name: 'sonnet45',
@@ -640,6 +860,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -648,7 +871,18 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsReasoning: false,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-sonnet-4-5' },
+      openrouter: { id: 'anthropic/claude-sonnet-4.5' },
+      bedrock: { id: 'anthropic.claude-sonnet-4-5-20250929-v1:0' },
+      vertex: { id: 'claude-sonnet-4-5@20250929' },
+      'vscode-lm': { id: 'claude-sonnet-4.5' },
+    },
     deprecated: true,
+    releaseDate: '2025-09-29',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet46',
+    successorOf: 'sonnet4',
   },
   haiku45T: {
     name: 'haiku45T',
@@ -663,6 +897,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 1.0,
     outputPrice: 5.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -672,6 +909,17 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-haiku-4-5-20251001' },
+      openrouter: { id: 'anthropic/claude-haiku-4.5' },
+      bedrock: { id: 'anthropic.claude-haiku-4-5-20251001-v1:0' },
+      vertex: { id: 'claude-haiku-4-5@20251001' },
+      copilot: { id: 'claude-haiku-4.5' },
+      'vscode-lm': { id: 'claude-haiku-4.5' },
+    },
+    releaseDate: '2025-10-15',
+    variantOf: 'haiku45',
+    family: 'claude-haiku',
   },
   haiku45: {
     name: 'haiku45',
@@ -686,6 +934,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 1.0,
     outputPrice: 5.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -694,6 +945,17 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsReasoning: false,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'claude-haiku-4-5-20251001' },
+      openrouter: { id: 'anthropic/claude-haiku-4.5' },
+      bedrock: { id: 'anthropic.claude-haiku-4-5-20251001-v1:0' },
+      vertex: { id: 'claude-haiku-4-5@20251001' },
+      copilot: { id: 'claude-haiku-4.5' },
+      'vscode-lm': { id: 'claude-haiku-4.5' },
+    },
+    releaseDate: '2025-10-15',
+    family: 'claude-haiku',
+    successorOf: 'haiku35',
   },
   sonnet4T: {
     name: 'sonnet4T',
@@ -707,6 +969,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 5.0,
     outputPrice: 25.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -716,9 +981,18 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsInterleavedThinking: true,
     },
     openRouterOnly: false,
+    platforms: {
+      bedrock: { id: 'anthropic.claude-sonnet-4-20250514-v1:0' },
+      vertex: { id: 'claude-sonnet-4@20250514' },
+    },
     deprecated: true,
     // Retired on the Claude API; still served on Bedrock and Google Cloud.
     retired: true,
+    releaseDate: '2025-05-22',
+    variantOf: 'sonnet4',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet45T',
+    successorOf: 'sonnet37T',
   },
   sonnet4: {
     name: 'sonnet4',
@@ -732,6 +1006,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -740,9 +1017,17 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
       supportsReasoning: false,
     },
     openRouterOnly: false,
+    platforms: {
+      bedrock: { id: 'anthropic.claude-sonnet-4-20250514-v1:0' },
+      vertex: { id: 'claude-sonnet-4@20250514' },
+    },
     deprecated: true,
     // Retired on the Claude API; still served on Bedrock and Google Cloud.
     retired: true,
+    releaseDate: '2025-05-22',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet45',
+    successorOf: 'sonnet37',
   },
   sonnet37T: {
     name: 'sonnet37T',
@@ -755,6 +1040,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -765,6 +1053,12 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2025-02-24',
+    deprecationDate: '2025-10-28',
+    retirementDate: '2026-02-19',
+    variantOf: 'sonnet37',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet4T',
   },
   sonnet37: {
     name: 'sonnet37',
@@ -778,6 +1072,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -788,6 +1085,12 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2025-02-24',
+    deprecationDate: '2025-10-28',
+    retirementDate: '2026-02-19',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet4',
+    successorOf: 'sonnet36',
   },
   opus3: {
     name: 'opus3',
@@ -800,6 +1103,8 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 15.0,
     outputPrice: 75.0,
+    batchDiscountFactor: 0.5,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsAssistantPrefill: true,
@@ -808,6 +1113,10 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    deprecationDate: '2025-06-30',
+    retirementDate: '2026-01-05',
+    family: 'claude-opus',
+    supersededBy: 'opus4',
   },
   sonnet36: {
     name: 'sonnet36',
@@ -820,6 +1129,8 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsAssistantPrefill: true,
@@ -828,6 +1139,12 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2024-10-22',
+    deprecationDate: '2025-08-13',
+    retirementDate: '2025-10-22',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet37',
+    successorOf: 'sonnet35',
   },
   sonnet35: {
     name: 'sonnet35',
@@ -840,6 +1157,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -849,6 +1169,12 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2024-06-20',
+    deprecationDate: '2025-08-13',
+    retirementDate: '2025-10-22',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet36',
+    successorOf: 'sonnet3',
   },
   sonnet3: {
     name: 'sonnet3',
@@ -861,6 +1187,8 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsAssistantPrefill: true,
@@ -869,6 +1197,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    retirementDate: '2025-07-21',
+    family: 'claude-sonnet',
+    supersededBy: 'sonnet35',
   },
   haiku35: {
     name: 'haiku35',
@@ -881,6 +1212,9 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 0.8,
     outputPrice: 4.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: ANTHROPIC_TOOL_PRICING,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -892,6 +1226,11 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    deprecationDate: '2025-10-28',
+    retirementDate: '2026-02-19',
+    family: 'claude-haiku',
+    supersededBy: 'haiku45',
+    successorOf: 'haiku3',
   },
   haiku3: {
     name: 'haiku3',
@@ -904,6 +1243,8 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 0.25,
     outputPrice: 1.25,
+    batchDiscountFactor: 0.5,
+    modalityPricing: ANTHROPIC_MODALITY_PRICING,
     capabilities: {
       ...ANTHROPIC_DEFAULT_CAPABILITIES,
       supportsAssistantPrefill: true,
@@ -912,5 +1253,7 @@ export const ANTHROPIC_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'claude-haiku',
+    supersededBy: 'haiku35',
   },
 };
@@ -13,7 +13,7 @@ import {
  * entries also carry `copilotFullName` and `vscodeLMFullName` route identifiers.
  * An authenticated adapter should still intersect the static catalog with the
  * account-specific model response at runtime because availability depends on
- * the user's plan, policy, and client.
+ * the user's plan, policy, and client; `reconcileCopilotModels()` does this.
  *
  * Source (verified 2026-07-12):
  * https://docs.github.com/en/copilot/reference/ai-models/supported-models
@@ -67,6 +67,55 @@ export const COPILOT_MODEL_IDS = [
 
 export type CopilotModelId = (typeof COPILOT_MODEL_IDS)[number];
 
+/**
+ * Registry name of the ModelConfig behind each documented Copilot model
+ * name, or `undefined` when the registry has no entry for it. Keyed by every
+ * `CopilotModelName`, so a catalog update that misses a mapping fails to
+ * compile. Resolve entries with `copilotModel()`.
+ */
+export const COPILOT_MODEL_NAME_MAP: Readonly<Record<CopilotModelName, string | undefined>> = {
+  'GPT-5 mini': 'gpt5-',
+  'GPT-5.3-Codex': 'gpt53codex',
+  'GPT-5.4': 'gpt54',
+  'GPT-5.4 mini': 'gpt54-',
+  'GPT-5.4 nano': 'gpt54--',
+  'GPT-5.5': 'gpt55',
+  'GPT-5.6 Luna': 'gpt56--',
+  'GPT-5.6 Sol': 'gpt56',
+  'GPT-5.6 Terra': 'gpt56-',
+  'Claude Fable 5': 'fable5',
+  'Claude Haiku 4.5': 'haiku45',
+  'Claude Opus 4.5': 'opus45',
+  'Claude Opus 4.6': 'opus46',
+  'Claude Opus 4.7': 'opus47',
+  'Claude Opus 4.8': 'opus48',
+  'Claude Opus 4.8 (fast mode) (preview)': 'opus48',
+  'Claude Sonnet 4.5': 'sonnet45',
+  'Claude Sonnet 4.6': 'sonnet46',
+  'Claude Sonnet 5': 'sonnet5',
+  'Gemini 2.5 Pro': 'gemini25p',
+  'Gemini 3 Flash': 'gemini3f',
+  'Gemini 3.1 Pro': 'gemini31p',
+  'Gemini 3.5 Flash': 'gemini35f',
+  'MAI-Code-1-Flash': undefined,
+  'Raptor mini': undefined,
+  'Kimi-K2.7-Code': 'kimi27code',
+};
+
+/**
+ * Registry name of the ModelConfig behind each documented Copilot `--model`
+ * identifier, or `undefined` when the registry has no entry for it.
+ */
+export const COPILOT_MODEL_ID_MAP: Readonly<Record<CopilotModelId, string | undefined>> = {
+  'claude-sonnet-4.6': 'sonnet46',
+  'gpt-5.4': 'gpt54',
+  'claude-haiku-4.5': 'haiku45',
+  'gpt-5.3-codex': 'gpt53codex',
+  'gemini-3.1-pro-preview': 'gemini31p',
+  'gemini-3.5-flash': 'gemini35f',
+  'mai-code-1-flash': undefined,
+};
+
 /**
  * Default capabilities for GitHub Copilot models.
  */
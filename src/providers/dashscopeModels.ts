@@ -31,12 +31,14 @@ export const DASHSCOPE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 262144,
     inputPrice: 1.2,
     outputPrice: 6,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...DASHSCOPE_DEFAULT_CAPABILITIES,
       supportsVision: false,
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'qwen-max',
   },
   qwenplus: {
     name: 'qwenplus',
@@ -49,12 +51,14 @@ export const DASHSCOPE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 0.4,
     outputPrice: 1.2,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...DASHSCOPE_DEFAULT_CAPABILITIES,
       supportsVision: false,
       supportsReasoning: true,
     },
     openRouterOnly: false,
+    family: 'qwen-plus',
   },
   qwenturbo: {
     name: 'qwenturbo',
@@ -67,11 +71,13 @@ export const DASHSCOPE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 131072,
     inputPrice: 0.05,
     outputPrice: 0.5,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...DASHSCOPE_DEFAULT_CAPABILITIES,
       supportsVision: false,
       supportsReasoning: true,
     },
     openRouterOnly: false,
+    family: 'qwen-turbo',
   },
 };
@@ -49,6 +49,8 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.02,
     },
     openRouterOnly: false,
+    family: 'deepseek',
+    successorOf: 'dsv32',
   },
   // DeepSeek-V4-Flash (Thinking Mode)
   // reasoning_effort defaults to high. Flash resolves three distinct levels —
@@ -77,11 +79,18 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
         ReasoningEffort.HIGH,
         ReasoningEffort.MAX,
       ],
+      reasoningEffortAliases: {
+        [ReasoningEffort.MEDIUM]: ReasoningEffort.HIGH,
+        [ReasoningEffort.XHIGH]: ReasoningEffort.HIGH,
+      },
       supportsFunctionCalling: true,
       supportsAssistantPrefill: true,
       cacheDiscountFactor: 0.02,
     },
     openRouterOnly: false,
+    variantOf: 'deepseek',
+    family: 'deepseek',
+    successorOf: 'dsv32T',
   },
   // DeepSeek-V4-Flash-Vision-Exp
   // Experimental vision-enabled variant of V4-Flash (announced 2026-08-21):
@@ -112,6 +121,8 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.02,
     },
     openRouterOnly: false,
+    releaseDate: '2026-08-21',
+    family: 'deepseek',
   },
   // DeepSeek-V4-Pro (Non-thinking Mode)
   deepseekpro: {
@@ -132,6 +143,7 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.003625 / 0.435,
     },
     openRouterOnly: false,
+    family: 'deepseek-pro',
   },
   // DeepSeek-V4-Pro (Thinking Mode)
   // Same reasoning_effort vocabulary as Flash (low/high/max), but Pro
@@ -157,11 +169,17 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
       reasoningEffort: ReasoningEffort.HIGH,
       maxReasoningEffort: ReasoningEffort.MAX,
       supportedReasoningEfforts: [ReasoningEffort.HIGH, ReasoningEffort.MAX],
+      reasoningEffortAliases: {
+        [ReasoningEffort.LOW]: ReasoningEffort.HIGH,
+        [ReasoningEffort.XHIGH]: ReasoningEffort.MAX,
+      },
       supportsFunctionCalling: true,
       supportsAssistantPrefill: true,
       cacheDiscountFactor: 0.003625 / 0.435,
     },
     openRouterOnly: false,
+    variantOf: 'deepseekpro',
+    family: 'deepseek-pro',
   },
   // DeepSeek-V3.2 (Non-thinking Mode)
   dsv32: {
@@ -183,6 +201,9 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'deepseek',
+    supersededBy: 'deepseek',
+    successorOf: 'dsv3',
   },
   // DeepSeek-V3.2 (Thinking Mode)
   dsv32T: {
@@ -206,6 +227,10 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    variantOf: 'dsv32',
+    family: 'deepseek',
+    supersededBy: 'deepseekT',
+    successorOf: 'dsr1',
   },
   // DeepSeek-V3.2-Speciale (Extended Thinking)
   'deepseekT+': {
@@ -230,6 +255,8 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     baseUrl: 'https://api.deepseek.com/v3.2_speciale_expires_on_20251215',
     deprecated: true,
     retired: true,
+    retirementDate: '2025-12-15',
+    family: 'deepseek',
   },
   dsv3: {
     name: 'dsv3',
@@ -249,6 +276,9 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'deepseek',
+    supersededBy: 'dsv32',
+    successorOf: 'dsv3o',
   },
   dsr1: {
     name: 'dsr1',
@@ -269,6 +299,9 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'deepseek',
+    supersededBy: 'dsv32T',
+    successorOf: 'dsr1o',
   },
   dsv3o: {
     name: 'dsv3o',
@@ -288,6 +321,8 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'deepseek',
+    supersededBy: 'dsv3',
   },
   dsr1o: {
     name: 'dsr1o',
@@ -308,5 +343,7 @@ export const DEEPSEEK_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'deepseek',
+    supersededBy: 'dsr1',
   },
 };
@@ -56,6 +56,9 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.186,
     },
     openRouterOnly: false,
+    releaseDate: '2026-08-14',
+    family: 'glm',
+    successorOf: 'glm52',
   },
   // GLM-5.2 (Flagship agentic coding model, announced 2026-06-13)
   // 744B MoE (40B active), 1M-token context, dual thinking-effort (High/Max), text-only.
@@ -83,6 +86,10 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    releaseDate: '2026-06-13',
+    family: 'glm',
+    supersededBy: 'glm53',
+    successorOf: 'glm51',
   },
   // GLM-5.1 (Agentic coding model, released 2026-04-07)
   glm51: {
@@ -104,6 +111,10 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    releaseDate: '2026-04-07',
+    family: 'glm',
+    supersededBy: 'glm52',
+    successorOf: 'glm5',
   },
   // GLM-5V-Turbo (Native multimodal agent for vision-based coding)
   glm5vturbo: {
@@ -123,6 +134,8 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
       supportsNativePdf: true,
     },
     openRouterOnly: false,
+    family: 'glm-vision',
+    successorOf: 'glm46v',
   },
   // GLM-5 (Flagship open-source model)
   glm5: {
@@ -144,6 +157,9 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm',
+    supersededBy: 'glm51',
+    successorOf: 'glm47',
   },
   // GLM-5 Turbo (Fast inference, agent-optimized)
   glm5turbo: {
@@ -164,6 +180,7 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.2,
     },
     openRouterOnly: false,
+    family: 'glm-turbo',
   },
   // GLM-4.7 (Enhanced programming and multi-step reasoning)
   glm47: {
@@ -185,6 +202,9 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm',
+    supersededBy: 'glm5',
+    successorOf: 'glm45',
   },
   // GLM-4.7 Flash (Free efficient 30B-class model)
   glm47flash: {
@@ -203,6 +223,7 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm-air',
   },
   // GLM-4.6V (Multimodal vision model)
   glm46v: {
@@ -223,6 +244,9 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm-vision',
+    supersededBy: 'glm5vturbo',
+    successorOf: 'glm45v',
   },
   // GLM-4.5 (Hybrid reasoning MoE model, 355B/32B active)
   glm45: {
@@ -247,6 +271,8 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm',
+    supersededBy: 'glm47',
   },
   // GLM-4.5V (Vision-language MoE model, 106B/12B active)
   glm45v: {
@@ -266,6 +292,8 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm-vision',
+    supersededBy: 'glm46v',
   },
   // GLM-4.5 Air (Free lightweight agent model)
   glm45air: {
@@ -284,6 +312,7 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'glm-air',
   },
   // GLM-4 32B (Superseded by GLM-4.7 and GLM-5)
   glm432b: {
@@ -303,5 +332,6 @@ export const GLM_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    supersededBy: 'glm47',
   },
 };
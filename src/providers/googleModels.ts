@@ -1,14 +1,18 @@
 import {
   DEFAULT_MODEL_CAPABILITIES,
+  ModalityPricing,
   ModelCapabilities,
   ModelConfig,
   ModelProvider,
   ReasoningEffort,
+  ToolPricing,
 } from '../ModelConfig';
 
 /**
  * Default capabilities for Google Gemini models.
  * Features native PDF, vision, and audio support with 75% cache cost savings.
+ * Explicit caches are written at the input price and stored at $1 per 1M
+ * tokens per hour ($4.50 for Pro models).
  *
  * Note: Native web search is disabled because Google's content generation API
  * doesn't support combining googleSearch with functionDeclarations
@@ -17,6 +21,7 @@ import {
 const GOOGLE_DEFAULT_CAPABILITIES: ModelCapabilities = {
   ...DEFAULT_MODEL_CAPABILITIES,
   cacheDiscountFactor: 0.25,
+  cacheStoragePrice: 1.0,
   supportsNativePdf: true,
   supportsVision: true,
   supportsNativeAudio: true,
@@ -24,6 +29,39 @@ const GOOGLE_DEFAULT_CAPABILITIES: ModelCapabilities = {
   supportsNativeWebSearch: false,
 };
 
+/**
+ * Gemini 3 media tokens at the default media resolution: 1,120 per image,
+ * 560 per PDF page, 32 per second of audio, and 102 per second of video
+ * (70 for one frame per second plus the audio track).
+ */
+const GOOGLE_MODALITY_PRICING: ModalityPricing = {
+  image: { kind: 'flat', tokensPerImage: 1120 },
+  audioTokensPerSecond: 32,
+  pdfTokensPerPage: 560,
+  videoTokensPerSecond: 102,
+};
+
+/**
+ * Gemini 2.5 media tokens: 258 per 768px image tile (smaller images count as
+ * one tile), 258 per PDF page, 32 per second of audio and 263 per second of
+ * video.
+ */
+const GEMINI_25_MODALITY_PRICING: ModalityPricing = {
+  image: { kind: 'tiles', tileSize: 768, tokensPerTile: 258, baseTokens: 0 },
+  audioTokensPerSecond: 32,
+  pdfTokensPerPage: 258,
+  videoTokensPerSecond: 263,
+};
+
+/**
+ * Gemini code execution and MCP tool calls carry no separate charge; the
+ * generated code and its results bill as tokens.
+ */
+const GOOGLE_TOOL_PRICING: ToolPricing = {
+  codeExecutionPerHour: 0,
+  mcpCallPerThousand: 0,
+};
+
 /**
  * Google Gemini model configurations.
  * Includes Gemini 3.x and 2.5 Pro/Flash variants.
@@ -40,6 +78,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 0.75,
     outputPrice: 3.75,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -52,6 +93,8 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
       supportsNativeMCPServer: true,
     },
     openRouterOnly: false,
+    family: 'gemini-flash',
+    successorOf: 'gemini36f',
   },
   gemini36f: {
     name: 'gemini36f',
@@ -66,6 +109,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 1.5,
     outputPrice: 7.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -79,6 +125,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gemini-flash',
+    supersededBy: 'gemini37f',
+    successorOf: 'gemini35f',
   },
   'gemini35f-': {
     name: 'gemini35f-',
@@ -91,6 +140,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 0.3,
     outputPrice: 2.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -102,6 +154,8 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
       supportsNativeCodeExecution: true,
     },
     openRouterOnly: false,
+    family: 'gemini-flash-lite',
+    successorOf: 'gemini31f-',
   },
   gemini35f: {
     name: 'gemini35f',
@@ -116,6 +170,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 1.5,
     outputPrice: 9.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -129,6 +186,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gemini-flash',
+    supersededBy: 'gemini36f',
+    successorOf: 'gemini3f',
   },
   gemini31p: {
     name: 'gemini31p',
@@ -143,8 +203,14 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 2.0,
     outputPrice: 12.0,
+    // Prompts over 200K tokens are billed at $4 / $18.
+    pricingTiers: [{ aboveInputTokens: 200000, inputPrice: 4.0, outputPrice: 18.0 }],
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
+      cacheStoragePrice: 4.5,
       supportsPromptCaching: true,
       supportsAutoPromptCaching: true,
       supportsReasoning: true,
@@ -154,6 +220,8 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
       supportsNativeMCPServer: true,
     },
     openRouterOnly: false,
+    family: 'gemini-pro',
+    successorOf: 'gemini3p',
   },
   'gemini31f-': {
     name: 'gemini31f-',
@@ -166,6 +234,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 0.25,
     outputPrice: 1.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       supportsPromptCaching: true,
@@ -177,6 +248,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gemini-flash-lite',
+    supersededBy: 'gemini35f-',
+    successorOf: 'gemini25f-',
   },
   gemini3p: {
     name: 'gemini3p',
@@ -190,8 +264,14 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 2.0,
     outputPrice: 12.0,
+    // Prompts over 200K tokens are billed at $4 / $18.
+    pricingTiers: [{ aboveInputTokens: 200000, inputPrice: 4.0, outputPrice: 18.0 }],
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GOOGLE_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
+      cacheStoragePrice: 4.5,
       supportsPromptCaching: true,
       supportsAutoPromptCaching: true,
       supportsReasoning: true,
@@ -203,6 +283,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'gemini-pro',
+    supersededBy: 'gemini31p',
+    successorOf: 'gemini25p',
   },
   gemini3f: {
     name: 'gemini3f',
@@ -215,6 +298,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 0.3,
     outputPrice: 2.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: { ...GOOGLE_MODALITY_PRICING, audioInputPrice: 1.0 },
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       supportsPromptCaching: true,
@@ -228,6 +314,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'gemini-flash',
+    supersededBy: 'gemini35f',
+    successorOf: 'gemini25f',
   },
   gemini25p: {
     name: 'gemini25p',
@@ -241,8 +330,14 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 1.25,
     outputPrice: 10.0,
+    // Prompts over 200K tokens are billed at $2.50 / $15.
+    pricingTiers: [{ aboveInputTokens: 200000, inputPrice: 2.5, outputPrice: 15.0 }],
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: GEMINI_25_MODALITY_PRICING,
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
+      cacheStoragePrice: 4.5,
       supportsPromptCaching: true,
       supportsAutoPromptCaching: true,
       supportsReasoning: true,
@@ -251,7 +346,15 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
       supportsNativeMCPServer: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gemini-2.5-pro' },
+      openrouter: { id: 'google/gemini-2.5-pro' },
+      vertex: { id: 'gemini-2.5-pro' },
+      'vscode-lm': { id: 'gemini-2.5-pro' },
+    },
     deprecated: true,
+    family: 'gemini-pro',
+    supersededBy: 'gemini3p',
   },
   gemini25f: {
     name: 'gemini25f',
@@ -264,6 +367,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 0.3,
     outputPrice: 2.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: { ...GEMINI_25_MODALITY_PRICING, audioInputPrice: 1.0 },
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       supportsPromptCaching: true,
@@ -275,9 +381,12 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gemini-flash',
+    supersededBy: 'gemini3f',
+    successorOf: 'gemini25f0617',
   },
   gemini25f0617: {
-    name: 'gemini25f',
+    name: 'gemini25f0617',
     label: 'Gemini 2.5 Flash (06-17)',
     fullName: 'gemini-2.5-flash',
     shortName: 'gemini-2.5-flash',
@@ -287,6 +396,9 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1048576,
     inputPrice: 0.3,
     outputPrice: 2.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: GOOGLE_TOOL_PRICING,
+    modalityPricing: { ...GEMINI_25_MODALITY_PRICING, audioInputPrice: 1.0 },
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       supportsPromptCaching: true,
@@ -297,7 +409,14 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
       supportsNativeMCPServer: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gemini-2.5-flash' },
+      openrouter: { id: 'google/gemini-2.5-flash' },
+      vertex: { id: 'gemini-2.5-flash' },
+    },
     deprecated: true,
+    family: 'gemini-flash',
+    supersededBy: 'gemini25f',
   },
   'gemini25f-': {
     name: 'gemini25f-',
@@ -310,6 +429,8 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     contextWindow: 65536,
     inputPrice: 0.1,
     outputPrice: 0.4,
+    batchDiscountFactor: 0.5,
+    modalityPricing: { ...GEMINI_25_MODALITY_PRICING, audioInputPrice: 0.3 },
     capabilities: {
       ...GOOGLE_DEFAULT_CAPABILITIES,
       supportsPromptCaching: true,
@@ -321,5 +442,7 @@ export const GOOGLE_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'gemini-flash-lite',
+    supersededBy: 'gemini31f-',
   },
 };
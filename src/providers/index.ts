@@ -8,6 +8,8 @@ export {
   COPILOT_MODELS,
   COPILOT_MODEL_IDS,
   COPILOT_MODEL_NAMES,
+  COPILOT_MODEL_NAME_MAP,
+  COPILOT_MODEL_ID_MAP,
   type CopilotModelId,
   type CopilotModelName,
 } from './copilotModels';
@@ -22,4 +24,5 @@ export { OPENAI_DEEP_RESEARCH_MODELS } from './openaiDeepResearchModels';
 export { OPENAI_MODELS } from './openaiModels';
 export { OPENAI_REASONING_MODELS } from './openaiReasoningModels';
 export { OTHER_MODELS } from './otherModels';
+export { PROVIDER_ENDPOINTS } from './providerEndpoints';
 export { XAI_MODELS } from './xaiModels';
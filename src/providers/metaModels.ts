@@ -42,5 +42,6 @@ export const META_MODELS: Record<string, ModelConfig> = {
     outputPrice: 4.25,
     capabilities: META_DEFAULT_CAPABILITIES,
     openRouterOnly: false,
+    family: 'muse-spark',
   },
 };
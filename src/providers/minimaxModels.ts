@@ -46,6 +46,8 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
       supportsVision: true,
     },
     openRouterOnly: false,
+    family: 'minimax',
+    successorOf: 'minimaxM27',
   },
   minimaxM27: {
     name: 'minimaxM27',
@@ -63,6 +65,9 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'minimax',
+    supersededBy: 'minimaxM3',
+    successorOf: 'minimaxM25',
   },
   minimaxM25: {
     name: 'minimaxM25',
@@ -80,6 +85,9 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'minimax',
+    supersededBy: 'minimaxM27',
+    successorOf: 'minimaxM21',
   },
   minimaxM21: {
     name: 'minimaxM21',
@@ -97,6 +105,9 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'minimax',
+    supersededBy: 'minimaxM25',
+    successorOf: 'minimaxM2',
   },
   minimaxM2: {
     name: 'minimaxM2',
@@ -114,6 +125,9 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'minimax',
+    supersededBy: 'minimaxM21',
+    successorOf: 'minimaxM1',
   },
   minimaxM1: {
     name: 'minimaxM1',
@@ -131,6 +145,9 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'minimax',
+    supersededBy: 'minimaxM2',
+    successorOf: 'minimax01',
   },
   minimax01: {
     name: 'minimax01',
@@ -149,5 +166,7 @@ export const MINIMAX_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'minimax',
+    supersededBy: 'minimaxM1',
   },
 };
@@ -21,7 +21,7 @@ const MOONSHOT_DEFAULT_CAPABILITIES: ModelCapabilities = {
  */
 export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
   kimi: {
-    name: 'kimi128k',
+    name: 'kimi',
     label: 'Moonshot V1 128K',
     fullName: 'moonshot-v1-128k',
     shortName: 'moonshot-v1-128k',
@@ -37,9 +37,10 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'moonshot-v1',
   },
   kimiv: {
-    name: 'kimi128kv',
+    name: 'kimiv',
     label: 'Moonshot V1 128K Vision',
     fullName: 'moonshot-v1-128k-vision-preview',
     shortName: 'moonshot-v1-128k-vision-preview',
@@ -55,6 +56,7 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'moonshot-v1',
   },
   kimit: {
     name: 'kimit',
@@ -75,6 +77,7 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'kimi',
   },
   kimi2: {
     name: 'kimi2',
@@ -97,6 +100,8 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'kimi',
+    supersededBy: 'kimi25',
   },
   'kimi2+': {
     name: 'kimi2+',
@@ -119,6 +124,7 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'kimi',
   },
   kimi2T: {
     name: 'kimi2T',
@@ -143,6 +149,8 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'kimi',
+    supersededBy: 'kimi25T',
   },
   'kimi2T+': {
     name: 'kimi2T+',
@@ -167,6 +175,7 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'kimi',
   },
   // kimi-k2.7-code: Moonshot's strongest coding model (released 2026-06-12).
   // 1T-param MoE (32B active), multimodal, thinking enabled by default (~30% fewer
@@ -190,6 +199,8 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.19 / 0.95,
     },
     openRouterOnly: false,
+    releaseDate: '2026-06-12',
+    family: 'kimi-code',
   },
   kimi27codeT: {
     name: 'kimi27codeT',
@@ -213,6 +224,9 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       reasoningEffort: ReasoningEffort.HIGH,
     },
     openRouterOnly: false,
+    releaseDate: '2026-06-12',
+    variantOf: 'kimi27code',
+    family: 'kimi-code',
   },
   // kimi-k2.6: A model that can enable or disable thinking capability, enabled by default. You can disable thinking by using {"type": "disabled"}
   kimi26: {
@@ -233,6 +247,9 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.2 / 0.6,
     },
     openRouterOnly: false,
+    family: 'kimi',
+    supersededBy: 'kimi3',
+    successorOf: 'kimi25',
   },
   kimi26T: {
     name: 'kimi26T',
@@ -255,6 +272,10 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       reasoningEffort: ReasoningEffort.HIGH,
     },
     openRouterOnly: false,
+    variantOf: 'kimi26',
+    family: 'kimi',
+    supersededBy: 'kimi3',
+    successorOf: 'kimi25T',
   },
   // kimi-k2.5: A model that can enable or disable thinking capability, enabled by default. You can disable thinking by using {"type": "disabled"}
   kimi25: {
@@ -276,6 +297,9 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'kimi',
+    supersededBy: 'kimi26',
+    successorOf: 'kimi2',
   },
   kimi25T: {
     name: 'kimi25T',
@@ -299,6 +323,10 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    variantOf: 'kimi25',
+    family: 'kimi',
+    supersededBy: 'kimi26T',
+    successorOf: 'kimi2T',
   },
   // kimi-k3: Moonshot's flagship model (2.8T params), built on Kimi Delta
   // Attention with native visual understanding and a 1M-token context window.
@@ -330,6 +358,8 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       cacheDiscountFactor: 0.3 / 3.0,
     },
     openRouterOnly: false,
+    family: 'kimi',
+    successorOf: 'kimi26',
   },
   // ==========================================================================
   // Kimi Code (Moonshot coding-subscription plan) — served ONLY by the managed
@@ -361,6 +391,10 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       supportsAutoPromptCaching: true,
     },
     openRouterOnly: false,
+    platforms: {
+      'kimi-code': { id: 'kimi-for-coding', baseUrl: 'https://api.kimi.com/coding/v1' },
+    },
+    family: 'kimi-code',
   },
   // kimi-for-coding-highspeed: Allegretto+ only; same model at 5-6x output speed.
   kimiCodingFast: {
@@ -383,5 +417,9 @@ export const MOONSHOT_MODELS: Record<string, ModelConfig> = {
       supportsAutoPromptCaching: true,
     },
     openRouterOnly: false,
+    platforms: {
+      'kimi-code': { id: 'kimi-for-coding-highspeed', baseUrl: 'https://api.kimi.com/coding/v1' },
+    },
+    family: 'kimi-code',
   },
 };
@@ -1,8 +1,10 @@
 import {
   DEFAULT_MODEL_CAPABILITIES,
+  ModalityPricing,
   ModelCapabilities,
   ModelConfig,
   ModelProvider,
+  ToolPricing,
 } from '../ModelConfig';
 
 /**
@@ -26,6 +28,32 @@ const OPENAI_DEEP_RESEARCH_DEFAULT_CAPABILITIES: ModelCapabilities = {
   supportsNativePdf: true,
 };
 
+/**
+ * High-detail image tokens for deep research models, as for other OpenAI
+ * reasoning models: 70 base tokens plus 140 per 512px tile.
+ */
+const OPENAI_DEEP_RESEARCH_MODALITY_PRICING: ModalityPricing = {
+  image: {
+    kind: 'tiles',
+    tileSize: 512,
+    tokensPerTile: 140,
+    baseTokens: 70,
+    maxDimension: 2048,
+    shortSide: 768,
+  },
+};
+
+/**
+ * Native tool charges for deep research models, which issue many web
+ * searches per request: $10 per 1,000 searches and $0.03 per code
+ * interpreter container. Remote MCP calls bill as tokens only.
+ */
+const OPENAI_DEEP_RESEARCH_TOOL_PRICING: ToolPricing = {
+  webSearchPerThousand: 10,
+  codeExecutionPerSession: 0.03,
+  mcpCallPerThousand: 0,
+};
+
 /**
  * OpenAI deep research model configurations.
  * These models require the Responses API and are optimized for research tasks.
@@ -42,6 +70,9 @@ export const OPENAI_DEEP_RESEARCH_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 10,
     outputPrice: 40,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_DEEP_RESEARCH_TOOL_PRICING,
+    modalityPricing: OPENAI_DEEP_RESEARCH_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEEP_RESEARCH_DEFAULT_CAPABILITIES,
     },
@@ -49,6 +80,7 @@ export const OPENAI_DEEP_RESEARCH_MODELS: Record<string, ModelConfig> = {
     requiresResponsesAPI: true,
     deprecated: true,
     retired: true,
+    family: 'o-deep-research',
   },
   'o4-mini-deep-research': {
     name: 'o4-mini-deep-research',
@@ -61,6 +93,9 @@ export const OPENAI_DEEP_RESEARCH_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 2,
     outputPrice: 8,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_DEEP_RESEARCH_TOOL_PRICING,
+    modalityPricing: OPENAI_DEEP_RESEARCH_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEEP_RESEARCH_DEFAULT_CAPABILITIES,
     },
@@ -68,5 +103,6 @@ export const OPENAI_DEEP_RESEARCH_MODELS: Record<string, ModelConfig> = {
     requiresResponsesAPI: true,
     deprecated: true,
     retired: true,
+    family: 'o-deep-research',
   },
 };
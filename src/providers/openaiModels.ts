@@ -1,8 +1,10 @@
 import {
   DEFAULT_MODEL_CAPABILITIES,
+  ModalityPricing,
   ModelCapabilities,
   ModelConfig,
   ModelProvider,
+  ToolPricing,
 } from '../ModelConfig';
 
 /**
@@ -21,6 +23,32 @@ const OPENAI_DEFAULT_CAPABILITIES: ModelCapabilities = {
   supportsNativeCodeExecution: false,
 };
 
+/**
+ * High-detail GPT-4o family image tokens: fit within 2048x2048, scale the short
+ * side to 768px, then 85 base tokens plus 170 per 512px tile.
+ */
+const OPENAI_MODALITY_PRICING: ModalityPricing = {
+  image: {
+    kind: 'tiles',
+    tileSize: 512,
+    tokensPerTile: 170,
+    baseTokens: 85,
+    maxDimension: 2048,
+    shortSide: 768,
+  },
+};
+
+/**
+ * OpenAI native tool charges for GPT models: web search on non-reasoning
+ * models costs $25 per 1,000 calls; each code interpreter container costs
+ * $0.03. Remote MCP calls bill as tokens only.
+ */
+const OPENAI_TOOL_PRICING: ToolPricing = {
+  webSearchPerThousand: 25,
+  codeExecutionPerSession: 0.03,
+  mcpCallPerThousand: 0,
+};
+
 /**
  * OpenAI GPT model configurations.
  * Includes GPT-4.x, GPT-4o, and GPT-4.5 variants.
@@ -38,6 +66,9 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 2.0,
     outputPrice: 8.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_TOOL_PRICING,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.25,
@@ -47,7 +78,17 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
       supportsPredictiveOutput: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-4.1-2025-04-14' },
+      openrouter: { id: 'openai/gpt-4.1' },
+      azure: { id: 'gpt-4.1' },
+      'vscode-lm': { id: 'gpt-4.1' },
+    },
     deprecated: true,
+    releaseDate: '2025-04-14',
+    family: 'gpt',
+    supersededBy: 'gpt5',
+    successorOf: 'gpt4o',
   },
   'gpt41-': {
     name: 'gpt41-',
@@ -61,6 +102,9 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 0.4,
     outputPrice: 1.6,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_TOOL_PRICING,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.25,
@@ -70,7 +114,17 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
       supportsPredictiveOutput: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-4.1-mini-2025-04-14' },
+      openrouter: { id: 'openai/gpt-4.1-mini' },
+      azure: { id: 'gpt-4.1-mini' },
+      'vscode-lm': { id: 'gpt-4.1-mini' },
+    },
     deprecated: true,
+    releaseDate: '2025-04-14',
+    family: 'gpt-mini',
+    supersededBy: 'gpt5-',
+    successorOf: 'gpt4o-',
   },
   'gpt41--': {
     name: 'gpt41--',
@@ -83,6 +137,9 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 0.1,
     outputPrice: 0.4,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_TOOL_PRICING,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.25,
@@ -92,7 +149,15 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
       supportsPredictiveOutput: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-4.1-nano-2025-04-14' },
+      openrouter: { id: 'openai/gpt-4.1-nano' },
+      azure: { id: 'gpt-4.1-nano' },
+    },
     deprecated: true,
+    releaseDate: '2025-04-14',
+    family: 'gpt-nano',
+    supersededBy: 'gpt5--',
   },
   gpt45: {
     name: 'gpt45',
@@ -105,6 +170,8 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 75.0,
     outputPrice: 150.0,
+    batchDiscountFactor: 0.5,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       supportsPredictiveOutput: false,
@@ -112,6 +179,11 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2025-02-27',
+    deprecationDate: '2025-04-14',
+    retirementDate: '2025-07-14',
+    family: 'gpt',
+    supersededBy: 'gpt41',
   },
   gpt4o: {
     name: 'gpt4o',
@@ -125,6 +197,9 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 2.5,
     outputPrice: 10.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_TOOL_PRICING,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -133,7 +208,17 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
       supportsPredictiveOutput: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-4o-2024-11-20' },
+      openrouter: { id: 'openai/gpt-4o-2024-11-20' },
+      azure: { id: 'gpt-4o' },
+      'vscode-lm': { id: 'gpt-4o' },
+    },
     deprecated: true,
+    releaseDate: '2024-05-13',
+    family: 'gpt',
+    supersededBy: 'gpt41',
+    successorOf: 'gpt4t',
   },
   gpt4t: {
     name: 'gpt4t',
@@ -146,6 +231,8 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 10.0,
     outputPrice: 30.0,
+    batchDiscountFactor: 0.5,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       supportsAutoPromptCaching: false,
@@ -154,6 +241,8 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'gpt',
+    supersededBy: 'gpt4o',
   },
   'gpt4o-': {
     name: 'gpt4o-',
@@ -167,12 +256,23 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 0.15,
     outputPrice: 0.6,
+    batchDiscountFactor: 0.5,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       supportsPredictiveOutput: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-4o-mini-2024-07-18' },
+      openrouter: { id: 'openai/gpt-4o-mini-2024-07-18' },
+      azure: { id: 'gpt-4o-mini' },
+      'vscode-lm': { id: 'gpt-4o-mini' },
+    },
     deprecated: true,
+    releaseDate: '2024-07-18',
+    family: 'gpt-mini',
+    supersededBy: 'gpt41-',
   },
   gpt4ol: {
     name: 'gpt4ol',
@@ -185,6 +285,7 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 5.0,
     outputPrice: 15.0,
+    modalityPricing: OPENAI_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_DEFAULT_CAPABILITIES,
       supportsReasoning: true,
@@ -192,5 +293,7 @@ export const OPENAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'gpt',
+    supersededBy: 'gpt5',
   },
 };
@@ -1,9 +1,13 @@
 import {
   DEFAULT_MODEL_CAPABILITIES,
+  ModalityPricing,
   ModelCapabilities,
   ModelConfig,
   ModelProvider,
+  PriceWindow,
   ReasoningEffort,
+  ServiceTierPricing,
+  ToolPricing,
 } from '../ModelConfig';
 
 /**
@@ -20,6 +24,60 @@ const OPENAI_REASONING_DEFAULT_CAPABILITIES: ModelCapabilities = {
   supportsReasoningEffort: true,
 };
 
+/**
+ * High-detail image tokens for reasoning models: the GPT-4o tiling with 70
+ * base tokens plus 140 per 512px tile.
+ */
+const OPENAI_REASONING_MODALITY_PRICING: ModalityPricing = {
+  image: {
+    kind: 'tiles',
+    tileSize: 512,
+    tokensPerTile: 140,
+    baseTokens: 70,
+    maxDimension: 2048,
+    shortSide: 768,
+  },
+};
+
+/**
+ * OpenAI native tool charges for reasoning models: $10 per 1,000 web searches
+ * and $0.03 per code interpreter container. Remote MCP calls bill as tokens only.
+ */
+const OPENAI_REASONING_TOOL_PRICING: ToolPricing = {
+  webSearchPerThousand: 10,
+  codeExecutionPerSession: 0.03,
+  mcpCallPerThousand: 0,
+};
+
+// GPT-5.6 Sol promotional pricing (confirmed active through at least
+// November 21, 2026): $4.00 / $20.00, cut from the $5.00 / $30.00 launch
+// rate. The window ends on the last confirmed day; extend `until` if OpenAI
+// announces a later end of the promotion.
+const GPT_56_SOL_PROMOTIONAL_PRICING: readonly PriceWindow[] = [
+  { until: '2026-11-21', inputPrice: 4.0, outputPrice: 20.0 },
+];
+
+// Fast mode bills twice the standard-tier rate, promotion included.
+const GPT_56_SOL_FAST_PROMOTIONAL_PRICING: readonly PriceWindow[] = [
+  { until: '2026-11-21', inputPrice: 8.0, outputPrice: 40.0 },
+];
+
+// OpenAI service tiers: Flex processing (slower, may be queued) at half the
+// Standard rate and Fast mode (formerly Priority) at twice the Standard rate.
+const OPENAI_SERVICE_TIERS: readonly ServiceTierPricing[] = [
+  { tier: 'flex', inputMultiplier: 0.5, outputMultiplier: 0.5, available: true },
+  { tier: 'standard', inputMultiplier: 1, outputMultiplier: 1, available: true },
+  { tier: 'fast', inputMultiplier: 2, outputMultiplier: 2, available: true },
+];
+
+// GPT-5.6 Sol's Fast mode is cataloged as its own entry (gpt56fast), which
+// carries the fast-tier rates and promotion; both entries share this table.
+const GPT_56_SOL_SERVICE_TIERS: readonly ServiceTierPricing[] = [
+  { tier: 'flex', inputMultiplier: 0.5, outputMultiplier: 0.5, available: true },
+  { tier: 'standard', inputMultiplier: 1, outputMultiplier: 1, available: true, model: 'gpt56' },
+  { tier: 'fast', inputMultiplier: 2, outputMultiplier: 2, available: true, model: 'gpt56fast' },
+];
+
 /**
  * OpenAI reasoning model configurations.
  * Includes o1, o3, o4, and GPT-5 reasoning variants.
@@ -37,6 +95,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 1.1,
     outputPrice: 4.4,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.25,
@@ -47,7 +109,17 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsVision: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'o4-mini-2025-04-16' },
+      openrouter: { id: 'openai/o4-mini-high' },
+      azure: { id: 'o4-mini' },
+      'vscode-lm': { id: 'o4-mini' },
+    },
     deprecated: true,
+    releaseDate: '2025-04-16',
+    family: 'o-mini',
+    supersededBy: 'gpt5-',
+    successorOf: 'o3-',
   },
   o3pro: {
     name: 'o3pro',
@@ -61,6 +133,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 20.0,
     outputPrice: 80.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsNativeWebSearch: true,
@@ -71,6 +146,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    releaseDate: '2025-06-10',
+    family: 'o-pro',
+    supersededBy: 'gpt5pro',
+    successorOf: 'o1pro',
   },
   o3: {
     name: 'o3',
@@ -84,6 +163,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 2.0,
     outputPrice: 8.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.25,
@@ -94,7 +177,17 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsVision: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'o3-2025-04-16' },
+      openrouter: { id: 'openai/o3' },
+      azure: { id: 'o3' },
+      'vscode-lm': { id: 'o3' },
+    },
     deprecated: true,
+    releaseDate: '2025-04-16',
+    family: 'o',
+    supersededBy: 'gpt5',
+    successorOf: 'o1',
   },
   'o3-': {
     name: 'o3-',
@@ -108,6 +201,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 1.1,
     outputPrice: 4.4,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -115,7 +210,16 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsVision: false,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'o3-mini-2025-01-31' },
+      openrouter: { id: 'openai/o3-mini-2025-01-31' },
+      azure: { id: 'o3-mini' },
+      'vscode-lm': { id: 'o3-mini' },
+    },
     deprecated: true,
+    family: 'o-mini',
+    supersededBy: 'o4-',
+    successorOf: 'o1-',
   },
   o1pro: {
     name: 'o1pro',
@@ -128,6 +232,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 150.0,
     outputPrice: 600.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -135,6 +242,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'o-pro',
+    supersededBy: 'o3pro',
   },
   o1: {
     name: 'o1',
@@ -148,6 +257,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 200000,
     inputPrice: 15.0,
     outputPrice: 60.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsNativeMCPServer: true,
@@ -155,7 +267,17 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsNativePdf: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'o1-2024-12-17' },
+      openrouter: { id: 'openai/o1-2024-12-17' },
+      azure: { id: 'o1' },
+      'vscode-lm': { id: 'o1' },
+    },
     deprecated: true,
+    releaseDate: '2024-12-17',
+    family: 'o',
+    supersededBy: 'o3',
+    successorOf: 'o1preview',
   },
   o1preview: {
     name: 'o1preview',
@@ -169,6 +291,7 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 15.0,
     outputPrice: 60.0,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsVision: false,
@@ -177,6 +300,11 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2024-09-12',
+    deprecationDate: '2025-04-28',
+    retirementDate: '2025-07-28',
+    family: 'o',
+    supersededBy: 'o1',
   },
   'o1-': {
     name: 'o1-',
@@ -190,6 +318,7 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 128000,
     inputPrice: 1.1,
     outputPrice: 4.4,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsVision: false,
@@ -198,6 +327,11 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    releaseDate: '2024-09-12',
+    deprecationDate: '2025-04-28',
+    retirementDate: '2025-07-28',
+    family: 'o-mini',
+    supersededBy: 'o3-',
   },
   gptoss: {
     name: 'gptoss',
@@ -216,6 +350,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: true,
     deprecated: true,
+    releaseDate: '2025-08-05',
+    family: 'gpt-oss',
   },
   'gptoss-': {
     name: 'gptoss-',
@@ -234,6 +370,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: true,
     deprecated: true,
+    releaseDate: '2025-08-05',
+    family: 'gpt-oss',
   },
   gpt5pro: {
     name: 'gpt5pro',
@@ -247,6 +385,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 15.0,
     outputPrice: 120.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsAutoPromptCaching: false,
@@ -259,6 +400,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt-pro',
+    supersededBy: 'gpt52pro',
   },
   gpt5: {
     name: 'gpt5',
@@ -272,6 +415,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 1.25,
     outputPrice: 10.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -283,7 +430,17 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsNativePdf: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-5-2025-08-07' },
+      openrouter: { id: 'openai/gpt-5-2025-08-07' },
+      azure: { id: 'gpt-5' },
+      'vscode-lm': { id: 'gpt-5' },
+    },
     deprecated: true,
+    releaseDate: '2025-08-07',
+    family: 'gpt',
+    supersededBy: 'gpt51',
+    successorOf: 'gpt41',
   },
   gpt51: {
     name: 'gpt51',
@@ -297,6 +454,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 1.25,
     outputPrice: 10.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -310,6 +471,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt',
+    supersededBy: 'gpt52',
+    successorOf: 'gpt5',
   },
   gpt52pro: {
     name: 'gpt52pro',
@@ -323,6 +487,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 21.0,
     outputPrice: 168.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsAutoPromptCaching: false,
@@ -336,6 +503,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     requiresResponsesAPI: true,
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt-pro',
+    supersededBy: 'gpt54pro',
+    successorOf: 'gpt5pro',
   },
   gpt52: {
     name: 'gpt52',
@@ -349,6 +519,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 1.75,
     outputPrice: 14.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -361,6 +535,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt',
+    supersededBy: 'gpt54',
+    successorOf: 'gpt51',
   },
   gpt52codex: {
     name: 'gpt52codex',
@@ -374,6 +551,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 1.75,
     outputPrice: 14.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -387,6 +568,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'gpt-codex',
+    supersededBy: 'gpt53codex',
   },
   gpt53codex: {
     name: 'gpt53codex',
@@ -401,6 +584,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 1.75,
     outputPrice: 14.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -413,6 +600,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt-codex',
+    successorOf: 'gpt52codex',
   },
   gpt54pro: {
     name: 'gpt54pro',
@@ -426,6 +615,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1050000,
     inputPrice: 30.0,
     outputPrice: 180.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsAutoPromptCaching: false,
@@ -438,6 +630,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     requiresResponsesAPI: true,
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt-pro',
+    supersededBy: 'gpt55pro',
+    successorOf: 'gpt52pro',
   },
   gpt55: {
     name: 'gpt55',
@@ -451,6 +646,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1050000,
     inputPrice: 5.0,
     outputPrice: 30.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -465,6 +664,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     codexSubscription: true,
     deprecated: true,
+    family: 'gpt',
+    supersededBy: 'gpt56',
+    successorOf: 'gpt54',
   },
   gpt55pro: {
     name: 'gpt55pro',
@@ -478,6 +680,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1050000,
     inputPrice: 30.0,
     outputPrice: 180.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       supportsAutoPromptCaching: false,
@@ -491,6 +696,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     requiresResponsesAPI: true,
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt-pro',
+    supersededBy: 'gpt56pro',
+    successorOf: 'gpt54pro',
   },
   gpt56: {
     name: 'gpt56',
@@ -502,10 +710,13 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     provider: ModelProvider.OPENAI,
     maxOutputTokens: 128000,
     contextWindow: 1050000,
-    // Promotional pricing (confirmed active through at least November 21,
-    // 2026): $4.00 / $20.00, cut from the $5.00 / $30.00 launch rate.
-    inputPrice: 4.0,
-    outputPrice: 20.0,
+    inputPrice: 5.0,
+    outputPrice: 30.0,
+    priceSchedule: GPT_56_SOL_PROMOTIONAL_PRICING,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: GPT_56_SOL_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -521,6 +732,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     codexSubscription: true,
+    family: 'gpt',
+    successorOf: 'gpt55',
   },
   // gpt56pro: GPT-5.6 Sol driven in the Responses API's pro reasoning mode
   // (`reasoning.mode: 'pro'`). Unlike earlier Pro releases this is not a
@@ -537,10 +750,14 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     provider: ModelProvider.OPENAI,
     maxOutputTokens: 128000,
     contextWindow: 1050000,
-    // Same promotional rate as gpt56 — pro mode bills at Sol's standard
+    // Same rates and promotion as gpt56 — pro mode bills at Sol's standard
     // token rates (see the comment above).
-    inputPrice: 4.0,
-    outputPrice: 20.0,
+    inputPrice: 5.0,
+    outputPrice: 30.0,
+    priceSchedule: GPT_56_SOL_PROMOTIONAL_PRICING,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -557,6 +774,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     requiresResponsesAPI: true,
     openRouterOnly: false,
+    variantOf: 'gpt56',
+    family: 'gpt-pro',
+    successorOf: 'gpt55pro',
   },
   // gpt56fast: GPT-5.6 Sol served in Fast mode (`service_tier: 'fast'`, the
   // 2026-07-30 rename of `'priority'`, which both remain accepted). Same model
@@ -575,9 +795,14 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     provider: ModelProvider.OPENAI,
     maxOutputTokens: 128000,
     contextWindow: 1050000,
-    // Twice the current (promotional) standard-tier rate: $4.00 / $20.00.
-    inputPrice: 8.0,
-    outputPrice: 40.0,
+    // Twice the standard-tier rate: $5.00 / $30.00, or $4.00 / $20.00 while
+    // the promotion runs.
+    inputPrice: 10.0,
+    outputPrice: 60.0,
+    priceSchedule: GPT_56_SOL_FAST_PROMOTIONAL_PRICING,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: GPT_56_SOL_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -593,6 +818,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     serviceTier: 'fast',
     openRouterOnly: false,
+    variantOf: 'gpt56',
+    family: 'gpt',
   },
   'gpt56-': {
     name: 'gpt56-',
@@ -607,6 +834,11 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     // 2026-07-30 price cut: 20% off the launch rates ($2.50 / $15).
     inputPrice: 2.0,
     outputPrice: 12.0,
+    priceSchedule: [{ until: '2026-07-29', inputPrice: 2.5, outputPrice: 15.0 }],
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -622,6 +854,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     codexSubscription: true,
+    family: 'gpt-mini',
+    successorOf: 'gpt54-',
   },
   'gpt56--': {
     name: 'gpt56--',
@@ -635,6 +869,11 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     // 2026-07-30 price cut: 80% off the launch rates ($1 / $6).
     inputPrice: 0.2,
     outputPrice: 1.2,
+    priceSchedule: [{ until: '2026-07-29', inputPrice: 1.0, outputPrice: 6.0 }],
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -650,6 +889,8 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     codexSubscription: true,
+    family: 'gpt-nano',
+    successorOf: 'gpt54--',
   },
   gpt54: {
     name: 'gpt54',
@@ -664,6 +905,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1050000,
     inputPrice: 2.5,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -678,6 +923,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     codexSubscription: true,
     deprecated: true,
+    family: 'gpt',
+    supersededBy: 'gpt55',
+    successorOf: 'gpt52',
   },
   'gpt54-': {
     name: 'gpt54-',
@@ -691,6 +939,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 0.75,
     outputPrice: 4.5,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -705,6 +957,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     codexSubscription: true,
     deprecated: true,
+    family: 'gpt-mini',
+    supersededBy: 'gpt56-',
+    successorOf: 'gpt5-',
   },
   'gpt54--': {
     name: 'gpt54--',
@@ -717,6 +972,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 0.2,
     outputPrice: 1.25,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -729,6 +988,9 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'gpt-nano',
+    supersededBy: 'gpt56--',
+    successorOf: 'gpt5--',
   },
   'gpt5-': {
     name: 'gpt5-',
@@ -742,6 +1004,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 0.25,
     outputPrice: 2.0,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -753,7 +1019,17 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsNativePdf: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-5-mini-2025-08-07' },
+      openrouter: { id: 'openai/gpt-5-mini-2025-08-07' },
+      azure: { id: 'gpt-5-mini' },
+      'vscode-lm': { id: 'gpt-5-mini' },
+    },
     deprecated: true,
+    releaseDate: '2025-08-07',
+    family: 'gpt-mini',
+    supersededBy: 'gpt54-',
+    successorOf: 'gpt41-',
   },
   'gpt5--': {
     name: 'gpt5--',
@@ -766,6 +1042,10 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
     contextWindow: 400000,
     inputPrice: 0.05,
     outputPrice: 0.4,
+    batchDiscountFactor: 0.5,
+    toolPricing: OPENAI_REASONING_TOOL_PRICING,
+    modalityPricing: OPENAI_REASONING_MODALITY_PRICING,
+    serviceTiers: OPENAI_SERVICE_TIERS,
     capabilities: {
       ...OPENAI_REASONING_DEFAULT_CAPABILITIES,
       cacheDiscountFactor: 0.1,
@@ -777,6 +1057,15 @@ export const OPENAI_REASONING_MODELS: Record<string, ModelConfig> = {
       supportsNativePdf: true,
     },
     openRouterOnly: false,
+    platforms: {
+      direct: { id: 'gpt-5-nano-2025-08-07' },
+      openrouter: { id: 'openai/gpt-5-nano-2025-08-07' },
+      azure: { id: 'gpt-5-nano' },
+    },
     deprecated: true,
+    releaseDate: '2025-08-07',
+    family: 'gpt-nano',
+    supersededBy: 'gpt54--',
+    successorOf: 'gpt41--',
   },
 };
@@ -31,6 +31,7 @@ export const OTHER_MODELS: Record<string, ModelConfig> = {
     capabilities: OTHER_DEFAULT_CAPABILITIES,
     openRouterOnly: true,
     deprecated: true,
+    family: 'llama',
   },
   'qvq-72b': {
     name: 'qvq-72b',
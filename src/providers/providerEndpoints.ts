@@ -0,0 +1,81 @@
+import { ModelProvider, ProviderEndpoint } from '../ModelConfig';
+
+/**
+ * Default API endpoint of each provider.
+ * Every provider except Anthropic and Google speaks OpenAI-compatible Chat
+ * Completions; OpenRouter serves the models grouped under `OTHERS`.
+ */
+export const PROVIDER_ENDPOINTS: Record<ModelProvider, ProviderEndpoint> = {
+  [ModelProvider.ANTHROPIC]: {
+    baseUrl: 'https://api.anthropic.com/v1',
+    protocol: 'anthropic-messages',
+    auth: 'x-api-key',
+    envVars: ['ANTHROPIC_API_KEY'],
+  },
+  [ModelProvider.OPENAI]: {
+    baseUrl: 'https://api.openai.com/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['OPENAI_API_KEY'],
+  },
+  [ModelProvider.GOOGLE]: {
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    protocol: 'gemini',
+    auth: 'x-goog-api-key',
+    envVars: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  },
+  [ModelProvider.DEEPSEEK]: {
+    baseUrl: 'https://api.deepseek.com',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['DEEPSEEK_API_KEY'],
+  },
+  [ModelProvider.XAI]: {
+    baseUrl: 'https://api.x.ai/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['XAI_API_KEY'],
+  },
+  [ModelProvider.MOONSHOT]: {
+    baseUrl: 'https://api.moonshot.ai/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['MOONSHOT_API_KEY'],
+  },
+  [ModelProvider.DASHSCOPE]: {
+    baseUrl: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['DASHSCOPE_API_KEY'],
+  },
+  [ModelProvider.MINIMAX]: {
+    baseUrl: 'https://api.minimax.io/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['MINIMAX_API_KEY'],
+  },
+  [ModelProvider.COPILOT]: {
+    baseUrl: 'https://api.githubcopilot.com',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['GITHUB_TOKEN'],
+  },
+  [ModelProvider.GLM]: {
+    baseUrl: 'https://api.z.ai/api/paas/v4',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['ZAI_API_KEY', 'ZHIPUAI_API_KEY'],
+  },
+  [ModelProvider.META]: {
+    baseUrl: 'https://api.meta.ai/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['META_API_KEY'],
+  },
+  [ModelProvider.OTHERS]: {
+    baseUrl: 'https://openrouter.ai/api/v1',
+    protocol: 'openai-chat',
+    auth: 'bearer',
+    envVars: ['OPENROUTER_API_KEY'],
+  },
+};
@@ -20,9 +20,10 @@ const XAI_DEFAULT_CAPABILITIES: ModelCapabilities = {
  */
 export const XAI_MODELS: Record<string, ModelConfig> = {
   // Grok 4.6: 500K context and $2/$6 (<200K tier) pricing per docs.x.ai, same
-  // as 4.5. xAI publishes no max output tokens for any Grok model ("no text
-  // output limit"), so this carries over the 128K value used by the other
-  // Grok 4.x entries here.
+  // as 4.5; prompts over 200K bill at the doubled $4/$12 long-context tier.
+  // xAI publishes no max output tokens for any Grok model ("no text output
+  // limit"), so this carries over the 128K value used by the other Grok 4.x
+  // entries here.
   grok46: {
     name: 'grok46',
     label: 'Grok 4.6',
@@ -34,6 +35,8 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 500000,
     inputPrice: 2.0,
     outputPrice: 6.0,
+    pricingTiers: [{ aboveInputTokens: 200000, inputPrice: 4.0, outputPrice: 12.0 }],
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...XAI_DEFAULT_CAPABILITIES,
       supportsVision: true,
@@ -42,6 +45,8 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
       reasoningEffort: ReasoningEffort.HIGH,
     },
     openRouterOnly: false,
+    family: 'grok',
+    successorOf: 'grok45',
   },
   grok45: {
     name: 'grok45',
@@ -54,6 +59,9 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 500000,
     inputPrice: 2.0,
     outputPrice: 6.0,
+    // Prompts over 200K tokens are billed at the doubled $4 / $12 tier.
+    pricingTiers: [{ aboveInputTokens: 200000, inputPrice: 4.0, outputPrice: 12.0 }],
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...XAI_DEFAULT_CAPABILITIES,
       supportsVision: true,
@@ -62,6 +70,9 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
       reasoningEffort: ReasoningEffort.HIGH,
     },
     openRouterOnly: false,
+    family: 'grok',
+    supersededBy: 'grok46',
+    successorOf: 'grok43',
   },
   grok43: {
     name: 'grok43',
@@ -74,6 +85,7 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 1000000,
     inputPrice: 1.25,
     outputPrice: 2.5,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...XAI_DEFAULT_CAPABILITIES,
       supportsReasoning: true,
@@ -82,6 +94,9 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'grok',
+    supersededBy: 'grok45',
+    successorOf: 'grok4',
   },
   grok4: {
     name: 'grok4',
@@ -94,6 +109,9 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 256000,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    // Prompts over 128K tokens are billed at the doubled $6 / $30 tier.
+    pricingTiers: [{ aboveInputTokens: 128000, inputPrice: 6.0, outputPrice: 30.0 }],
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...XAI_DEFAULT_CAPABILITIES,
       supportsReasoning: true,
@@ -102,6 +120,9 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'grok',
+    supersededBy: 'grok43',
+    successorOf: 'grok3',
   },
   grok3: {
     name: 'grok3',
@@ -114,6 +135,7 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 131072,
     inputPrice: 3.0,
     outputPrice: 15.0,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...XAI_DEFAULT_CAPABILITIES,
       supportsReasoning: false,
@@ -122,6 +144,9 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'grok',
+    supersededBy: 'grok4',
+    successorOf: 'grok2',
   },
   'grok3-': {
     name: 'grok3-',
@@ -134,6 +159,7 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     contextWindow: 131072,
     inputPrice: 0.3,
     outputPrice: 0.5,
+    batchDiscountFactor: 0.5,
     capabilities: {
       ...XAI_DEFAULT_CAPABILITIES,
       supportsReasoning: true,
@@ -142,6 +168,7 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     },
     openRouterOnly: false,
     deprecated: true,
+    family: 'grok-mini',
   },
   grok2: {
     name: 'grok2',
@@ -158,6 +185,8 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'grok',
+    supersededBy: 'grok3',
   },
   grok2v: {
     name: 'grok2v',
@@ -177,5 +206,6 @@ export const XAI_MODELS: Record<string, ModelConfig> = {
     openRouterOnly: false,
     deprecated: true,
     retired: true,
+    family: 'grok',
   },
 };
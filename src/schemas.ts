@@ -14,7 +14,22 @@
  */
 
 import { z } from 'zod';
-import { ModelProvider, ReasoningEffort } from './ModelConfig';
+import {
+  CacheTtl,
+  ImageTokenRule,
+  ModalityPricing,
+  ModelCapabilities,
+  ModelConfig,
+  ModelProvider,
+  Platform,
+  PlatformAvailability,
+  PriceWindow,
+  PricingTier,
+  ReasoningEffort,
+  ServiceTier,
+  ServiceTierPricing,
+  ToolPricing,
+} from './ModelConfig';
 
 // ============================================================================
 // Zod v4 Schemas
@@ -24,6 +39,8 @@ export const ReasoningEffortSchema = z.nativeEnum(ReasoningEffort);
 
 export const ModelProviderSchema = z.nativeEnum(ModelProvider);
 
+export const CacheTtlSchema = z.enum(['5m', '1h']);
+
 /** Feature flags defining model's supported capabilities and behaviors. */
 export const ModelCapabilitiesSchema = z.object({
   supportsFunctionCalling: z.boolean(),
@@ -34,12 +51,17 @@ export const ModelCapabilitiesSchema = z.object({
   supportsPromptCaching: z.boolean(),
   supportsAutoPromptCaching: z.boolean(),
   cacheDiscountFactor: z.number(),
+  cacheWriteFactors: z.partialRecord(CacheTtlSchema, z.number()).optional(),
+  cacheStoragePrice: z.number().optional(),
   supportsReasoning: z.boolean(),
   supportsInterleavedThinking: z.boolean(),
+  /** Defaults to false so payloads written before the flag existed still parse */
   supportsAdaptiveThinking: z.boolean().default(false),
   reasoningEffort: ReasoningEffortSchema,
   maxReasoningEffort: ReasoningEffortSchema.optional(),
   supportedReasoningEfforts: z.array(ReasoningEffortSchema).readonly().optional(),
+  reasoningEffortAliases: z.partialRecord(ReasoningEffortSchema, ReasoningEffortSchema).optional(),
+  reasoningOverhead: z.partialRecord(ReasoningEffortSchema, z.number()).optional(),
   reasoningMode: z.literal('pro').optional(),
   supportsVision: z.boolean(),
   supportsNativePdf: z.boolean(),
@@ -52,15 +74,102 @@ export const ModelCapabilitiesSchema = z.object({
   supportsNativeAudio: z.boolean(),
 });
 
+/** Long-context pricing tier selected by prompt size. */
+export const PricingTierSchema = z.object({
+  aboveInputTokens: z.number(),
+  inputPrice: z.number(),
+  outputPrice: z.number(),
+});
+
+/** Dated price window (introductory or promotional pricing). */
+export const PriceWindowSchema = z.object({
+  from: z.string().optional(),
+  until: z.string().optional(),
+  inputPrice: z.number(),
+  outputPrice: z.number(),
+  pricingTiers: z.array(PricingTierSchema).readonly().optional(),
+});
+
+/** Native tool charges billed on top of tokens. */
+export const ToolPricingSchema = z.object({
+  webSearchPerThousand: z.number().optional(),
+  codeExecutionPerHour: z.number().optional(),
+  codeExecutionPerSession: z.number().optional(),
+  mcpCallPerThousand: z.number().optional(),
+});
+
+/** Image-to-token conversion rule. */
+export const ImageTokenRuleSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('pixels'), pixelsPerToken: z.number(), maxTokens: z.number() }),
+  z.object({
+    kind: z.literal('tiles'),
+    tileSize: z.number(),
+    tokensPerTile: z.number(),
+    baseTokens: z.number(),
+    maxDimension: z.number().optional(),
+    shortSide: z.number().optional(),
+  }),
+  z.object({ kind: z.literal('flat'), tokensPerImage: z.number() }),
+]);
+
+/** Token conversion and pricing for non-text input. */
+export const ModalityPricingSchema = z.object({
+  image: ImageTokenRuleSchema.optional(),
+  audioTokensPerSecond: z.number().optional(),
+  audioInputPrice: z.number().optional(),
+  pdfTokensPerPage: z.number().optional(),
+  videoTokensPerSecond: z.number().optional(),
+});
+
+/** Service tier names. */
+export const ServiceTierSchema = z.enum(['flex', 'standard', 'fast']);
+
+/** Pricing and availability of one service tier. */
+export const ServiceTierPricingSchema = z.object({
+  tier: ServiceTierSchema,
+  inputMultiplier: z.number(),
+  outputMultiplier: z.number(),
+  available: z.boolean(),
+  model: z.string().optional(),
+});
+
+/** Platforms a model can be served on. */
+export const PlatformSchema = z.enum([
+  'direct',
+  'openrouter',
+  'bedrock',
+  'vertex',
+  'azure',
+  'copilot',
+  'vscode-lm',
+  'codex',
+  'kimi-code',
+]);
+
+/** How one platform serves a model. */
+export const PlatformAvailabilitySchema = z.object({
+  id: z.string(),
+  baseUrl: z.string().optional(),
+  regions: z.array(z.string()).readonly().optional(),
+  inputPrice: z.number().optional(),
+  outputPrice: z.number().optional(),
+});
+
 /** Complete configuration for a language model instance. */
 export const ModelConfigSchema = z.object({
   name: z.string(),
+  label: z.string(),
   fullName: z.string(),
   shortName: z.string(),
   provider: ModelProviderSchema,
   maxOutputTokens: z.number(),
   inputPrice: z.number(),
   outputPrice: z.number(),
+  pricingTiers: z.array(PricingTierSchema).readonly().optional(),
+  priceSchedule: z.array(PriceWindowSchema).readonly().optional(),
+  batchDiscountFactor: z.number().optional(),
+  toolPricing: ToolPricingSchema.optional(),
+  modalityPricing: ModalityPricingSchema.optional(),
   contextWindow: z.number(),
   capabilities: ModelCapabilitiesSchema,
   openRouterOnly: z.boolean(),
@@ -70,17 +179,137 @@ export const ModelConfigSchema = z.object({
   baseUrl: z.string().optional(),
   requiresResponsesAPI: z.boolean().optional(),
   serviceTier: z.literal('fast').optional(),
-  description: z.string().optional(),
+  serviceTiers: z.array(ServiceTierPricingSchema).readonly().optional(),
+  platforms: z.partialRecord(PlatformSchema, PlatformAvailabilitySchema).optional(),
   codexSubscription: z.boolean().optional(),
   kimiSubscription: z.boolean().optional(),
   deprecated: z.boolean().optional(),
   retired: z.boolean().optional(),
+  releaseDate: z.string().optional(),
+  deprecationDate: z.string().optional(),
+  retirementDate: z.string().optional(),
+  variantOf: z.string().optional(),
+  family: z.string().optional(),
+  supersededBy: z.string().optional(),
+  successorOf: z.string().optional(),
 });
 
 /** Registry of all model configurations. */
 export const ModelRegistrySchema = z.record(z.string(), ModelConfigSchema);
 
+// ============================================================================
+// Interface Parity
+// ============================================================================
+
+/** Strip `| undefined` from optional fields, which Zod adds and the interfaces omit */
+type Normalized<T> = T extends readonly (infer U)[]
+  ? readonly Normalized<U>[]
+  : T extends object
+    ? { [K in keyof T]: Normalized<Exclude<T[K], undefined>> }
+    : T;
+
+type Equivalent<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+/**
+ * `true` when a schema's parsed output has the same shape as its interface;
+ * otherwise the fields that differ, so a drift fails the type-check with the
+ * offending field names.
+ */
+type Parity<Schema extends z.ZodType, Interface, Output = z.output<Schema>> =
+  Equivalent<Normalized<Output>, Normalized<Interface>> extends true
+    ? true
+    : {
+        schemaOnly: Exclude<keyof Output, keyof Interface>;
+        interfaceOnly: Exclude<keyof Interface, keyof Output>;
+        mismatched: {
+          [K in keyof Output & keyof Interface]: Equivalent<
+            Normalized<Output[K]>,
+            Normalized<Interface[K]>
+          > extends true
+            ? never
+            : K;
+        }[keyof Output & keyof Interface];
+      };
+
+true satisfies Parity<typeof ReasoningEffortSchema, ReasoningEffort>;
+true satisfies Parity<typeof ModelProviderSchema, ModelProvider>;
+true satisfies Parity<typeof CacheTtlSchema, CacheTtl>;
+true satisfies Parity<typeof ModelCapabilitiesSchema, ModelCapabilities>;
+true satisfies Parity<typeof PricingTierSchema, PricingTier>;
+true satisfies Parity<typeof PriceWindowSchema, PriceWindow>;
+true satisfies Parity<typeof ToolPricingSchema, ToolPricing>;
+true satisfies Parity<typeof ImageTokenRuleSchema, ImageTokenRule>;
+true satisfies Parity<typeof ModalityPricingSchema, ModalityPricing>;
+true satisfies Parity<typeof ServiceTierSchema, ServiceTier>;
+true satisfies Parity<typeof ServiceTierPricingSchema, ServiceTierPricing>;
+true satisfies Parity<typeof PlatformSchema, Platform>;
+true satisfies Parity<typeof PlatformAvailabilitySchema, PlatformAvailability>;
+true satisfies Parity<typeof ModelConfigSchema, ModelConfig>;
+
+// ============================================================================
+// JSON Schema
+// ============================================================================
+
+/** Schemas emitted as named definitions, so consumers can reference them individually. */
+const NAMED_SCHEMAS: Record<string, z.ZodType> = {
+  ModelConfig: ModelConfigSchema,
+  ModelCapabilities: ModelCapabilitiesSchema,
+  ModelProvider: ModelProviderSchema,
+  ReasoningEffort: ReasoningEffortSchema,
+  PricingTier: PricingTierSchema,
+  PriceWindow: PriceWindowSchema,
+  ToolPricing: ToolPricingSchema,
+  ImageTokenRule: ImageTokenRuleSchema,
+  ModalityPricing: ModalityPricingSchema,
+  ServiceTierPricing: ServiceTierPricingSchema,
+  Platform: PlatformSchema,
+  PlatformAvailability: PlatformAvailabilitySchema,
+};
+
+function namedSchemas() {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(NAMED_SCHEMAS)) registry.add(schema, { id });
+  return registry;
+}
+
+/**
+ * JSON Schema (draft 2020-12) for a registry document: models keyed by
+ * registry name, with `ModelConfig`, `ModelCapabilities` and the types they
+ * use under `$defs`. Published as `llm-zoo/registry.schema.json`.
+ *
+ * @example
+ * ```typescript
+ * writeFileSync('registry.schema.json', JSON.stringify(registryJsonSchema(), null, 2));
+ * ```
+ */
+export function registryJsonSchema(): Record<string, unknown> {
+  const { $schema, ...schema } = z.toJSONSchema(ModelRegistrySchema, { metadata: namedSchemas() });
+  return { $schema, title: 'llm-zoo model registry', ...schema };
+}
+
+/**
+ * The same definitions as OpenAPI 3.0 component schemas, referencing each
+ * other via `#/components/schemas/<name>`. Published inside
+ * `llm-zoo/openapi.json`.
+ */
+export function openApiSchemas(): Record<string, unknown> {
+  const { schemas } = z.toJSONSchema(namedSchemas(), {
+    target: 'openapi-3.0',
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  // OpenAPI 3.0 schema objects have no $id; components are addressed by key
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $id: _, ...schema }]) => [id, schema]),
+  );
+}
+
 // Export inferred types for convenience
 export type ModelCapabilitiesSchemaType = z.infer<typeof ModelCapabilitiesSchema>;
+export type PricingTierSchemaType = z.infer<typeof PricingTierSchema>;
+export type PriceWindowSchemaType = z.infer<typeof PriceWindowSchema>;
+export type ToolPricingSchemaType = z.infer<typeof ToolPricingSchema>;
+export type ModalityPricingSchemaType = z.infer<typeof ModalityPricingSchema>;
+export type ServiceTierPricingSchemaType = z.infer<typeof ServiceTierPricingSchema>;
+export type PlatformAvailabilitySchemaType = z.infer<typeof PlatformAvailabilitySchema>;
 export type ModelConfigSchemaType = z.infer<typeof ModelConfigSchema>;
 export type ModelRegistrySchemaType = z.infer<typeof ModelRegistrySchema>;
@@ -3,8 +3,48 @@
  * @packageDocumentation
  */
 
-import { ModelConfig, ModelProvider, ModelCapabilities } from './ModelConfig';
-import { MODEL_CONFIGS } from './ModelRegistry';
+import {
+  ApiProtocol,
+  CacheTtl,
+  DEFAULT_REASONING_OVERHEAD,
+  ImageTokenRule,
+  ModelConfig,
+  ModelProvider,
+  ModelCapabilities,
+  Platform,
+  PlatformAvailability,
+  PricingMode,
+  ProviderEndpoint,
+  ReasoningEffort,
+  ServiceTier,
+  ServiceTierPricing,
+} from './ModelConfig';
+import {
+  COPILOT_MODEL_ID_MAP,
+  COPILOT_MODEL_NAME_MAP,
+  COPILOT_MODEL_NAMES,
+  CopilotModelName,
+  MODEL_CONFIGS,
+  PROVIDER_ENDPOINTS,
+} from './ModelRegistry';
+
+/** Model table read by the helpers, with indexes derived from it. */
+class RegistryState {
+  identifierIndex?: Map<string, IdentifierMatch[]>;
+
+  constructor(readonly configs: Record<string, ModelConfig>) {}
+}
+
+/** The built-in models, read by the module-level helpers. */
+const BUILT_IN = new RegistryState(MODEL_CONFIGS);
+
+/**
+ * Registry a helper reads: the `createRegistry()` instance it is bound to,
+ * or the built-in models when called as a plain function.
+ */
+function registryOf(self: unknown): RegistryState {
+  return self instanceof RegistryState ? self : BUILT_IN;
+}
 
 // ============================================================================
 // Lookup
@@ -12,149 +52,1518 @@ import { MODEL_CONFIGS } from './ModelRegistry';
 
 /**
  * Get a model by short name.
+ * Without `at` the entry is returned as registered, list prices and
+ * `priceSchedule` included. With `at` its prices are those of the price
+ * schedule window covering that date.
  *
  * @example
  * ```typescript
  * const claude = lookup('sonnet45');
  * const gpt = lookup('gpt4o');
+ *
+ * // Sonnet 5 during its introductory pricing window
+ * lookup('sonnet5', { at: new Date('2026-08-01') })?.inputPrice; // → 2
  * ```
  */
-export function lookup(name: string): ModelConfig | undefined {
-  return MODEL_CONFIGS[name];
+export function lookup(
+  this: unknown,
+  name: string,
+  options: { at?: Date } = {},
+): ModelConfig | undefined {
+  const config = registryOf(this).configs[name];
+  return config && options.at ? priceAt(config, options.at) : config;
+}
+
+/** Identifier fields searched by `resolve()`, in priority order. */
+const IDENTIFIER_FIELDS = [
+  'name',
+  'fullName',
+  'shortName',
+  'openrouterFullName',
+  'vscodeLMFullName',
+  'copilotFullName',
+] as const;
+
+/** A model identifier field that `resolve()` matches against. */
+export type IdentifierField = (typeof IDENTIFIER_FIELDS)[number];
+
+/** A registry entry matching an identifier, and the field it matched on. */
+export interface IdentifierMatch {
+  model: ModelConfig;
+  field: IdentifierField;
 }
 
 /**
- * Resolve a model by its full API identifier.
+ * Outcome of resolving an identifier, as returned by `resolution()`.
+ */
+export interface Resolution extends IdentifierMatch {
+  /** Every entry matching the identifier, best first */
+  candidates: IdentifierMatch[];
+  /** Why `model` was chosen over the other candidates */
+  reason: string;
+}
+
+/**
+ * Tie-breakers for entries sharing an identifier, in order. Lower scores
+ * win; `reason` explains a win decided by that rule.
+ */
+const RESOLUTION_RANKING: {
+  reason: string;
+  score: (match: IdentifierMatch, registry: RegistryState) => number;
+}[] = [
+  {
+    reason: 'matched a higher-priority field',
+    score: (m) => IDENTIFIER_FIELDS.indexOf(m.field),
+  },
+  {
+    // resolve() has always returned the first entry with a given API id
+    reason: 'registered first with this fullName',
+    score: (m, registry) =>
+      m.field === 'fullName' ? Object.values(registry.configs).indexOf(m.model) : 0,
+  },
+  { reason: 'active rather than retired', score: (m) => (m.model.retired ? 1 : 0) },
+  { reason: 'not deprecated', score: (m) => (m.model.deprecated ? 1 : 0) },
+  {
+    reason: 'available direct, not OpenRouter only',
+    score: (m) => (m.model.openRouterOnly ? 1 : 0),
+  },
+  { reason: 'standard service tier', score: (m) => (m.model.serviceTier ? 1 : 0) },
+  {
+    reason: 'standard reasoning mode',
+    score: (m) => (m.model.capabilities.reasoningMode ? 1 : 0),
+  },
+  {
+    reason: 'non-thinking variant',
+    score: (m) => (m.model.capabilities.supportsReasoning ? 1 : 0),
+  },
+];
+
+/**
+ * Order two matches by the resolution ranking; equal matches keep their order.
+ */
+function compareMatches(registry: RegistryState, a: IdentifierMatch, b: IdentifierMatch): number {
+  for (const rule of RESOLUTION_RANKING) {
+    const diff = rule.score(a, registry) - rule.score(b, registry);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Index of every identifier value to the entries carrying it, built on first
+ * use. An entry appears once per value, under its highest-priority field.
+ */
+function identifiers(registry: RegistryState): Map<string, IdentifierMatch[]> {
+  if (registry.identifierIndex) return registry.identifierIndex;
+
+  const identifierIndex = new Map<string, IdentifierMatch[]>();
+  for (const model of Object.values(registry.configs)) {
+    for (const field of IDENTIFIER_FIELDS) {
+      const id = model[field];
+      if (id === undefined) continue;
+      const matches = identifierIndex.get(id) ?? [];
+      if (!matches.some((m) => m.model === model)) {
+        matches.push({ model, field });
+        identifierIndex.set(id, matches);
+      }
+    }
+  }
+  registry.identifierIndex = identifierIndex;
+  return identifierIndex;
+}
+
+/**
+ * Resolve an identifier and explain the choice.
+ * Matches registry keys, API ids, short names, OpenRouter ids and VS Code /
+ * Copilot model names. When several entries share the identifier, the
+ * candidates are ranked by matched field. Entries sharing a `fullName` keep
+ * registry order, so an API id resolves to the same entry it always has;
+ * for other fields, active, non-deprecated, direct-access, standard-tier,
+ * standard-mode and non-thinking entries win, then registry order.
+ *
+ * @example
+ * ```typescript
+ * const { model, field, reason } = resolution('deepseek-v4-flash')!;
+ * // model.name → 'deepseek', field → 'fullName'
+ * // reason → 'Matched fullName "deepseek-v4-flash"; chose deepseek over deepseekT: registered first with this fullName'
+ *
+ * resolution('anthropic/claude-sonnet-4.6')!.reason;
+ * // → '...; chose sonnet46 over sonnet46T: non-thinking variant'
+ * ```
+ */
+export function resolution(this: unknown, id: string): Resolution | undefined {
+  const registry = registryOf(this);
+  const matches = identifiers(registry).get(id);
+  if (!matches) return undefined;
+
+  const candidates = [...matches].sort((a, b) => compareMatches(registry, a, b));
+  const [best, runnerUp] = candidates as [IdentifierMatch, ...IdentifierMatch[]];
+
+  const matched = `Matched ${best.field} "${id}"`;
+  let reason = `${matched}; only entry with this identifier`;
+  if (runnerUp) {
+    const rule = RESOLUTION_RANKING.find(
+      (r) => r.score(best, registry) !== r.score(runnerUp, registry),
+    );
+    const why = rule?.reason ?? 'registered first among equally ranked entries';
+    reason = `${matched}; chose ${best.model.name} over ${runnerUp.model.name}: ${why}`;
+  }
+
+  return { ...best, candidates, reason };
+}
+
+/**
+ * Resolve a model by any of its identifiers: registry key, full API id,
+ * short name, OpenRouter id, or VS Code / Copilot model name. Ambiguous
+ * identifiers resolve to the best-ranked entry; use `resolution()` to see
+ * the candidates and why one was chosen.
  *
  * @example
  * ```typescript
  * const model = resolve('claude-sonnet-4-5');
  * const model2 = resolve('gpt-4o-2024-11-20');
+ * const model3 = resolve('anthropic/claude-sonnet-4.5');
+ * ```
+ */
+export function resolve(this: unknown, id: string): ModelConfig | undefined {
+  return resolution.call(this, id)?.model;
+}
+
+/** A model field that `search()` matches against. */
+export type SearchField = IdentifierField | 'label';
+
+/** A registry entry ranked by `search()`. */
+export interface SearchResult {
+  model: ModelConfig;
+  /** Field whose value matched the query best */
+  field: SearchField;
+  /** Similarity from 0 (unrelated) to 1 (same identifier) */
+  score: number;
+}
+
+const SEARCH_FIELDS: readonly SearchField[] = ['label', ...IDENTIFIER_FIELDS];
+
+/** Lowercase and drop separators, so `Sonnet 4.5` and `sonnet-4-5` compare equal. */
+function normalizeId(id: string): string {
+  return id.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Edit distance between two strings. */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Similarity of a normalized query to a normalized candidate: 1 for equal
+ * values, 0.7-1 when the candidate contains the query, otherwise the share
+ * of characters left unchanged by the edit distance.
+ */
+function similarity(query: string, candidate: string): number {
+  if (query === candidate) return 1;
+  if (candidate.includes(query)) return 0.7 + (0.3 * query.length) / candidate.length;
+  return 1 - levenshtein(query, candidate) / Math.max(query.length, candidate.length);
+}
+
+/**
+ * Find models by fuzzy similarity to a query over their label, registry key,
+ * API ids and routing ids. Case, spaces and punctuation are ignored.
+ * Results are best first; ties prefer active models, then shorter registry keys.
+ *
+ * @example
+ * ```typescript
+ * search('sonnet-4.5')[0].model.name; // → 'sonnet45'
+ * search('opus 4.8', { limit: 3 });     // → opus48, opus48T, ...
+ * ```
+ */
+export function search(
+  this: unknown,
+  query: string,
+  options: { limit?: number; minScore?: number } = {},
+): SearchResult[] {
+  const { limit = 10, minScore = 0.5 } = options;
+  const normalized = normalizeId(query);
+  if (!normalized) return [];
+
+  const results: SearchResult[] = [];
+  for (const model of Object.values(registryOf(this).configs)) {
+    let best: SearchResult | undefined;
+    for (const field of SEARCH_FIELDS) {
+      const value = model[field];
+      if (value === undefined) continue;
+      const score = similarity(normalized, normalizeId(value));
+      if (!best || score > best.score) best = { model, field, score };
+    }
+    if (best && best.score >= minScore) results.push(best);
+  }
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(!!a.model.retired) - Number(!!b.model.retired) ||
+        a.model.name.length - b.model.name.length,
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Check if a model exists.
+ */
+export function exists(this: unknown, name: string): boolean {
+  return name in registryOf(this).configs;
+}
+
+/**
+ * Resolve a model argument to its registry entry, failing on unknown names.
+ */
+function configOf(registry: RegistryState, model: ModelConfig | string): ModelConfig {
+  const config = typeof model === 'string' ? registry.configs[model] : model;
+  if (!config) {
+    throw new Error(`Unknown model: ${model}${didYouMean.call(registry, String(model))}`);
+  }
+  return config;
+}
+
+/**
+ * Suggestion suffix for an unknown model error, or '' when nothing is close.
+ * Shared with the CLI so both suggest the same models.
+ */
+export function didYouMean(this: unknown, name: string): string {
+  const suggestions = search.call(this, name, { limit: 3, minScore: 0.6 }).map((r) => r.model.name);
+  return suggestions.length > 0 ? `. Did you mean ${suggestions.join(', ')}?` : '';
+}
+
+/** UTC calendar day of a date, matching the registry's `YYYY-MM-DD` fields */
+function dayOf(at: Date): string {
+  return at.toISOString().slice(0, 10);
+}
+
+/**
+ * Apply the price schedule window covering `at` (a UTC calendar day).
+ * The returned snapshot drops the schedule so its prices stay fixed; the
+ * model's long-context tiers apply unless the window sets its own.
+ */
+function priceAt(config: ModelConfig, at: Date = new Date()): ModelConfig {
+  const day = dayOf(at);
+  const window = config.priceSchedule?.find(
+    (w) => (w.from === undefined || w.from <= day) && (w.until === undefined || day <= w.until),
+  );
+  if (!window) return config;
+
+  const { priceSchedule: _schedule, ...rest } = config;
+  return {
+    ...rest,
+    inputPrice: window.inputPrice,
+    outputPrice: window.outputPrice,
+    ...(window.pricingTiers && { pricingTiers: window.pricingTiers }),
+  };
+}
+
+/**
+ * Apply a platform's price override. Overridden prices replace the
+ * provider's long-context tiers, which describe the provider's own API.
+ */
+function priceOn(
+  registry: RegistryState,
+  config: ModelConfig,
+  platform: Platform | undefined,
+): ModelConfig {
+  if (platform === undefined) return config;
+  const availability = platforms.call(registry, config)[platform];
+  if (!availability) {
+    throw new Error(`Model ${config.name} is not available on ${platform}`);
+  }
+  if (availability.inputPrice === undefined && availability.outputPrice === undefined) {
+    return config;
+  }
+
+  const { pricingTiers: _tiers, ...rest } = config;
+  return {
+    ...rest,
+    inputPrice: availability.inputPrice ?? config.inputPrice,
+    outputPrice: availability.outputPrice ?? config.outputPrice,
+  };
+}
+
+/**
+ * Combined input + output price per million tokens in effect today, or
+ * under the given pricing options.
+ */
+function listPrice(
+  registry: RegistryState,
+  config: ModelConfig,
+  options: CostOptions = {},
+): number {
+  const { inputPrice, outputPrice } = rates.call(registry, config, options);
+  return inputPrice + outputPrice;
+}
+
+// ============================================================================
+// Filtering - Fluent Predicates
+// ============================================================================
+
+/**
+ * Get all models from a provider.
+ *
+ * @example
+ * ```typescript
+ * const claudeModels = from(ModelProvider.ANTHROPIC);
+ * const geminiModels = from(ModelProvider.GOOGLE);
+ * ```
+ */
+export function from(this: unknown, provider: ModelProvider): ModelConfig[] {
+  return Object.values(registryOf(this).configs).filter((m) => m.provider === provider);
+}
+
+/**
+ * Find models matching a capability predicate.
+ *
+ * @example
+ * ```typescript
+ * // Vision + reasoning models
+ * const smart = where(c => c.supportsVision && c.supportsReasoning);
+ *
+ * // Models with great caching
+ * const cached = where(c => c.cacheDiscountFactor <= 0.1);
+ * ```
+ */
+export function where(
+  this: unknown,
+  predicate: (capabilities: ModelCapabilities) => boolean,
+): ModelConfig[] {
+  return Object.values(registryOf(this).configs).filter((m) => predicate(m.capabilities));
+}
+
+/**
+ * Get models supporting a specific capability.
+ *
+ * @example
+ * ```typescript
+ * const reasoners = supporting('supportsReasoning');
+ * const visionaries = supporting('supportsVision');
+ * const coders = supporting('supportsNativeCodeExecution');
+ * ```
+ */
+export function supporting(
+  this: unknown,
+  capability: keyof ModelCapabilities,
+): ModelConfig[] {
+  return Object.values(registryOf(this).configs).filter((m) => {
+    const value = m.capabilities[capability];
+    return typeof value === 'boolean' ? value : value !== undefined;
+  });
+}
+
+/**
+ * Filter by context window size.
+ *
+ * @example
+ * ```typescript
+ * const longContext = withContext(200000);  // 200K+ context
+ * const million = withContext(1000000);     // 1M+ context
+ * ```
+ */
+export function withContext(this: unknown, minTokens: number): ModelConfig[] {
+  return Object.values(registryOf(this).configs).filter(
+    (m) => m.contextWindow >= minTokens,
+  );
+}
+
+/**
+ * Get models accessible via direct API (not OpenRouter-only).
+ */
+export function directAccess(this: unknown): ModelConfig[] {
+  return Object.values(registryOf(this).configs).filter((m) => !m.openRouterOnly);
+}
+
+/**
+ * Get models only available through OpenRouter.
+ */
+export function openRouterOnly(this: unknown): ModelConfig[] {
+  return Object.values(registryOf(this).configs).filter((m) => m.openRouterOnly);
+}
+
+/** Kimi Code's managed endpoint, shared by every subscription model */
+const KIMI_CODE_BASE_URL = 'https://api.kimi.com/coding/v1';
+
+/**
+ * Get the platforms serving a model, keyed by platform, with each one's
+ * wire id. Entries without an explicit `platforms` map derive it from the
+ * per-platform name fields, which covers `direct`, `openrouter`, `copilot`,
+ * `vscode-lm`, `codex` and `kimi-code` only: Bedrock, Vertex and Azure need
+ * an explicit map. Retired entries derive an empty map.
+ *
+ * @example
+ * ```typescript
+ * platforms('sonnet45').bedrock?.id;  // → 'anthropic.claude-sonnet-4-5-20250929-v1:0'
+ * platforms('gpt54').codex?.id;       // → 'gpt-5.4'
+ * Object.keys(platforms('opus4'));    // → ['vertex'] (retired on the Claude API)
+ * ```
+ */
+export function platforms(
+  this: unknown,
+  model: ModelConfig | string,
+): Partial<Record<Platform, PlatformAvailability>> {
+  const config = configOf(registryOf(this), model);
+  if (config.platforms) return config.platforms;
+  if (retiredOn(config, dayOf(new Date()))) return {};
+
+  const derived: Partial<Record<Platform, PlatformAvailability>> = {};
+  if (!config.openRouterOnly) {
+    derived.direct = { id: config.fullName, ...(config.baseUrl && { baseUrl: config.baseUrl }) };
+  }
+  if (config.openrouterFullName) derived.openrouter = { id: config.openrouterFullName };
+  if (config.copilotFullName) derived.copilot = { id: config.copilotFullName };
+  if (config.vscodeLMFullName) derived['vscode-lm'] = { id: config.vscodeLMFullName };
+  if (config.codexSubscription) derived.codex = { id: config.shortName };
+  if (config.kimiSubscription) {
+    derived['kimi-code'] = { id: config.fullName, baseUrl: KIMI_CODE_BASE_URL };
+  }
+  return derived;
+}
+
+/**
+ * Get models served on a platform, optionally in a given region.
+ *
+ * @example
+ * ```typescript
+ * const bedrock = availableOn('bedrock');
+ * const vertexEu = availableOn('vertex', { region: 'europe-west1' });
+ * bedrock.map((m) => platforms(m).bedrock?.id);
+ * ```
+ */
+export function availableOn(
+  this: unknown,
+  platform: Platform,
+  options: { region?: string } = {},
+): ModelConfig[] {
+  const registry = registryOf(this);
+  return Object.values(registry.configs).filter((m) => {
+    const availability = platforms.call(registry, m)[platform];
+    if (!availability) return false;
+    return (
+      options.region === undefined ||
+      availability.regions === undefined ||
+      availability.regions.includes(options.region)
+    );
+  });
+}
+
+/** Whether a model is retired on a day; see `isRetired()`. */
+function retiredOn(config: ModelConfig, day: string): boolean {
+  if (config.retirementDate !== undefined) return config.retirementDate <= day;
+  return config.retired === true;
+}
+
+/** Whether a model is released and not yet retired on a day; see `active()`. */
+function activeOn(config: ModelConfig, day: string): boolean {
+  return !retiredOn(config, day) && (config.releaseDate === undefined || config.releaseDate <= day);
+}
+
+/**
+ * Whether a model is retired on `at` (default: now). A `retirementDate`
+ * decides when set; otherwise the `retired` flag describes the model's
+ * current status.
+ *
+ * @example
+ * ```typescript
+ * isRetired('sonnet35');                                   // → true
+ * isRetired('sonnet35', { at: new Date('2025-10-01') });   // → false
+ * ```
+ */
+export function isRetired(
+  this: unknown,
+  model: ModelConfig | string,
+  options: { at?: Date } = {},
+): boolean {
+  return retiredOn(configOf(registryOf(this), model), dayOf(options.at ?? new Date()));
+}
+
+/**
+ * Whether a model is deprecated on `at` (default: now). A `deprecationDate`
+ * decides when set; otherwise the `deprecated` flag describes the model's
+ * current status. Retired models count as deprecated.
+ */
+export function isDeprecated(
+  this: unknown,
+  model: ModelConfig | string,
+  options: { at?: Date } = {},
+): boolean {
+  const config = configOf(registryOf(this), model);
+  const day = dayOf(options.at ?? new Date());
+  if (retiredOn(config, day)) return true;
+  if (config.deprecationDate !== undefined) return config.deprecationDate <= day;
+  return config.deprecated === true;
+}
+
+/**
+ * Get models that have been retired and are no longer served.
+ * Pass `at` to ask about another point in time, based on `retirementDate`.
+ *
+ * @example
+ * ```typescript
+ * const gone = retired();
+ * console.log(`${gone.length} models are no longer available`);
+ *
+ * retired({ at: new Date('2025-01-01') }); // models already gone at New Year 2025
  * ```
  */
-export function resolve(fullName: string): ModelConfig | undefined {
-  return Object.values(MODEL_CONFIGS).find((m) => m.fullName === fullName);
+export function retired(this: unknown, options: { at?: Date } = {}): ModelConfig[] {
+  const day = dayOf(options.at ?? new Date());
+  return Object.values(registryOf(this).configs).filter((m) => retiredOn(m, day));
+}
+
+/**
+ * Get only active (released and non-retired) models.
+ * Pass `at` to ask about another point in time, based on `releaseDate` and `retirementDate`.
+ *
+ * @example
+ * ```typescript
+ * const available = active();
+ * console.log(`${available.length} models are currently available`);
+ *
+ * active({ at: new Date('2025-10-01') }).some((m) => m.name === 'sonnet35'); // → true
+ * ```
+ */
+export function active(this: unknown, options: { at?: Date } = {}): ModelConfig[] {
+  const day = dayOf(options.at ?? new Date());
+  return Object.values(registryOf(this).configs).filter((m) => activeOn(m, day));
+}
+
+/**
+ * Get models whose provider API retires them within the next `withinDays`
+ * days (after `at`, default now), soonest first.
+ *
+ * @example
+ * ```typescript
+ * for (const m of upcomingRetirements(90)) {
+ *   console.warn(`${m.name} retires on ${m.retirementDate}; move to ${m.supersededBy}`);
+ * }
+ * ```
+ */
+export function upcomingRetirements(
+  this: unknown,
+  withinDays: number,
+  options: { at?: Date } = {},
+): ModelConfig[] {
+  const at = options.at ?? new Date();
+  const from = dayOf(at);
+  const until = dayOf(new Date(at.getTime() + withinDays * 24 * 60 * 60 * 1000));
+  return Object.values(registryOf(this).configs)
+    .filter(
+      (m) => m.retirementDate !== undefined && from < m.retirementDate && m.retirementDate <= until,
+    )
+    .sort((a, b) => (a.retirementDate ?? '').localeCompare(b.retirementDate ?? ''));
+}
+
+// ============================================================================
+// Lineage
+// ============================================================================
+
+/**
+ * Get the newest available model in a family: a member active on `at`
+ * (default: now, as in `active()`) that no other active family member
+ * supersedes. Variants of the same release are ranked as in `resolve()`, so
+ * standard, non-thinking entries win.
+ *
+ * @example
+ * ```typescript
+ * latest('claude-opus')?.name;  // → 'opus5'
+ * latest('gemini-flash')?.name; // → 'gemini37f'
+ * ```
+ */
+export function latest(
+  this: unknown,
+  family: string,
+  options: { at?: Date } = {},
+): ModelConfig | undefined {
+  const registry = registryOf(this);
+  const day = dayOf(options.at ?? new Date());
+  const members = Object.values(registry.configs).filter(
+    (m) => m.family === family && activeOn(m, day),
+  );
+  const heads = members.filter((m) => !members.some((other) => other.name === m.supersededBy));
+  return heads
+    .map((model) => ({ model, field: 'name' as const }))
+    .sort((a, b) => compareMatches(registry, a, b))[0]?.model;
+}
+
+/**
+ * Get the model that directly supersedes this one, if it is registered.
+ *
+ * @example
+ * ```typescript
+ * successor('glm52')?.name; // → 'glm53'
+ * successor('o3')?.name;    // → 'gpt5'
+ * ```
+ */
+export function successor(this: unknown, model: ModelConfig | string): ModelConfig | undefined {
+  const registry = registryOf(this);
+  const { supersededBy } = configOf(registry, model);
+  return supersededBy === undefined ? undefined : registry.configs[supersededBy];
+}
+
+/**
+ * Get the chain of successors of a model, oldest first, ending at the newest
+ * registered replacement. Empty when nothing supersedes the model.
+ *
+ * @example
+ * ```typescript
+ * upgradePath('opus46').map((m) => m.name); // → ['opus47', 'opus48', 'opus5']
+ * upgradePath('o3').map((m) => m.name);     // → ['gpt5', 'gpt51', ..., 'gpt56']
+ * ```
+ */
+export function upgradePath(this: unknown, model: ModelConfig | string): ModelConfig[] {
+  const registry = registryOf(this);
+  const next = (m: ModelConfig | string) => successor.call(registry, m);
+  const path: ModelConfig[] = [];
+  const seen = new Set([configOf(registry, model).name]);
+  for (let step = next(model); step && !seen.has(step.name); step = next(step)) {
+    seen.add(step.name);
+    path.push(step);
+  }
+  return path;
+}
+
+/**
+ * Get every entry of a model, base entry first: the thinking, pro-mode and
+ * fast-tier variants linked by `variantOf`. A model without variants is
+ * returned alone.
+ *
+ * @example
+ * ```typescript
+ * variants('opus5T').map((m) => m.name); // → ['opus5', 'opus5T']
+ * variants('gpt56').map((m) => m.name);  // → ['gpt56', 'gpt56pro', 'gpt56fast']
+ * ```
+ */
+export function variants(this: unknown, model: ModelConfig | string): ModelConfig[] {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+  const base = (config.variantOf !== undefined && registry.configs[config.variantOf]) || config;
+  return [base, ...Object.values(registry.configs).filter((m) => m.variantOf === base.name)];
+}
+
+/**
+ * Get the variant of a model with thinking switched the other way and the
+ * same reasoning mode and service tier, if the registry has one.
+ *
+ * @example
+ * ```typescript
+ * toggleThinking('opus5')?.name;  // → 'opus5T'
+ * toggleThinking('kimi26T')?.name; // → 'kimi26'
+ * toggleThinking('fable5');        // → undefined (always thinks)
+ * ```
+ */
+export function toggleThinking(
+  this: unknown,
+  model: ModelConfig | string,
+): ModelConfig | undefined {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+  const twins = variants.call(registry, config);
+  return twins.find(
+    (m) =>
+      m.capabilities.supportsReasoning !== config.capabilities.supportsReasoning &&
+      m.capabilities.reasoningMode === config.capabilities.reasoningMode &&
+      m.serviceTier === config.serviceTier,
+  );
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+/**
+ * Get the endpoint to call a model on its provider's API: the provider's
+ * defaults from `PROVIDER_ENDPOINTS` with the model's own `baseUrl` and
+ * `requiresResponsesAPI` applied. OpenRouter-only models resolve to OpenRouter.
+ *
+ * @example
+ * ```typescript
+ * endpointFor('sonnet46');
+ * // → { baseUrl: 'https://api.anthropic.com/v1', protocol: 'anthropic-messages',
+ * //     auth: 'x-api-key', envVars: ['ANTHROPIC_API_KEY'] }
+ * endpointFor('kimiCoding').baseUrl;           // → 'https://api.kimi.com/coding/v1'
+ * endpointFor('o3-deep-research').protocol;    // → 'openai-responses'
+ * ```
+ */
+export function endpointFor(this: unknown, model: ModelConfig | string): ProviderEndpoint {
+  const config = configOf(registryOf(this), model);
+  const defaults =
+    PROVIDER_ENDPOINTS[config.openRouterOnly ? ModelProvider.OTHERS : config.provider];
+  return {
+    ...defaults,
+    ...(config.baseUrl && { baseUrl: config.baseUrl }),
+    ...(config.requiresResponsesAPI && { protocol: 'openai-responses' as const }),
+  };
+}
+
+// ============================================================================
+// Copilot Catalog
+// ============================================================================
+
+/** An entry of an account's Copilot model list, e.g. from its `/models` response. */
+export interface CopilotRuntimeModel {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Result of `reconcileCopilotModels()`.
+ */
+export interface CopilotReconciliation {
+  /** Runtime entries with a registry model, and that model's capabilities */
+  matched: Array<CopilotRuntimeModel & { model: ModelConfig; capabilities: ModelCapabilities }>;
+  /** Runtime entries the registry has no model for */
+  unknown: CopilotRuntimeModel[];
+  /** Documented Copilot models with a registry entry that the account does not offer */
+  missing: Array<{ name: CopilotModelName; model: ModelConfig; capabilities: ModelCapabilities }>;
+}
+
+/**
+ * Get the registry model behind a documented Copilot model name or
+ * `--model` identifier.
+ *
+ * @example
+ * ```typescript
+ * copilotModel('Claude Sonnet 5')?.name;  // → 'sonnet5'
+ * copilotModel('gpt-5.3-codex')?.name;    // → 'gpt53codex'
+ * copilotModel('Raptor mini');            // → undefined (no registry entry)
+ * ```
+ */
+export function copilotModel(this: unknown, nameOrId: string): ModelConfig | undefined {
+  const maps: Readonly<Record<string, string | undefined>>[] = [
+    COPILOT_MODEL_NAME_MAP,
+    COPILOT_MODEL_ID_MAP,
+  ];
+  const key = maps.find((map) => Object.hasOwn(map, nameOrId))?.[nameOrId];
+  return key === undefined ? undefined : registryOf(this).configs[key];
+}
+
+/**
+ * Registry model served by Copilot under a runtime id: a Copilot-provider
+ * entry (e.g. `copilot-gpt-4o` for `gpt-4o`), then a model routed to Copilot
+ * through `copilotFullName`.
+ */
+function copilotRuntimeModel(registry: RegistryState, id: string): ModelConfig | undefined {
+  const models = Object.values(registry.configs);
+  const names = [id, `copilot-${id}`];
+  return (
+    models.find(
+      (m) =>
+        m.provider === ModelProvider.COPILOT &&
+        (names.includes(m.fullName) || names.includes(m.shortName)),
+    ) ?? models.find((m) => m.copilotFullName === id)
+  );
+}
+
+/**
+ * Intersect the static Copilot catalog with an account's live model list,
+ * whose availability depends on plan, policy and client. Runtime entries
+ * match by documented id, by a Copilot-served registry entry, by any
+ * identifier `resolve()` knows, then by documented name. Copilot entries
+ * win over `resolve()`, so `gpt-4o` maps to `copilot4o` rather than the
+ * OpenAI model.
+ *
+ * @example
+ * ```typescript
+ * const { data } = await (await fetch('https://api.githubcopilot.com/models', { headers })).json();
+ * const { matched, unknown, missing } = reconcileCopilotModels(data);
+ * matched.filter((m) => m.capabilities.supportsVision).map((m) => m.id);
+ * // → ['claude-sonnet-4.6', 'gpt-5.4', ...]
+ * ```
+ */
+export function reconcileCopilotModels(
+  this: unknown,
+  runtimeList: readonly (CopilotRuntimeModel | string)[],
+): CopilotReconciliation {
+  const registry = registryOf(this);
+  const named = (nameOrId: string) => copilotModel.call(registry, nameOrId);
+  const result: CopilotReconciliation = { matched: [], unknown: [], missing: [] };
+  for (const entry of runtimeList) {
+    const runtime = typeof entry === 'string' ? { id: entry } : entry;
+    const model =
+      named(runtime.id) ??
+      copilotRuntimeModel(registry, runtime.id) ??
+      resolve.call(registry, runtime.id) ??
+      (runtime.name === undefined ? undefined : named(runtime.name));
+    if (model) {
+      result.matched.push({ ...runtime, model, capabilities: model.capabilities });
+    } else {
+      result.unknown.push(runtime);
+    }
+  }
+
+  const offered = new Set(result.matched.map((m) => m.model));
+  for (const name of COPILOT_MODEL_NAMES) {
+    const model = named(name);
+    if (model && !offered.has(model)) {
+      result.missing.push({ name, model, capabilities: model.capabilities });
+      offered.add(model);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Reasoning Effort
+// ============================================================================
+
+/** Effort levels from lowest to highest */
+const EFFORT_LADDER = [
+  ReasoningEffort.NONE,
+  ReasoningEffort.LOW,
+  ReasoningEffort.MEDIUM,
+  ReasoningEffort.HIGH,
+  ReasoningEffort.XHIGH,
+  ReasoningEffort.MAX,
+];
+
+/**
+ * How `normalizeEffort()` mapped a requested effort onto a model.
+ */
+export interface NormalizedEffort {
+  /** Level asked for */
+  requested: ReasoningEffort;
+  /** Value to send, or undefined when the model takes no effort parameter */
+  effort: ReasoningEffort | undefined;
+  /** Level the provider actually runs */
+  effective: ReasoningEffort;
+  /**
+   * `exact` when the level is supported, `alias` when the provider accepts
+   * it but runs another level, `downgrade` / `upgrade` when the nearest
+   * supported level is sent instead, `fixed` when the model's reasoning
+   * cannot be adjusted
+   */
+  adjustment: 'exact' | 'alias' | 'downgrade' | 'upgrade' | 'fixed';
+}
+
+/**
+ * Get the effort values a model accepts, lowest first: its
+ * `supportedReasoningEfforts`, or every level up to
+ * `maxReasoningEffort ?? reasoningEffort`. Empty when the model takes no
+ * effort parameter. Compatibility aliases are not included.
+ *
+ * @example
+ * ```typescript
+ * effortsFor('opus46T');   // → ['low', 'medium', 'high', 'max'] (no xhigh)
+ * effortsFor('deepseekT'); // → ['low', 'high', 'max']
+ * effortsFor('gpt41');     // → []
+ * ```
+ */
+export function effortsFor(this: unknown, model: ModelConfig | string): readonly ReasoningEffort[] {
+  const { capabilities } = configOf(registryOf(this), model);
+  if (!capabilities.supportsReasoningEffort) return [];
+  if (capabilities.supportedReasoningEfforts) return capabilities.supportedReasoningEfforts;
+  const top = capabilities.maxReasoningEffort ?? capabilities.reasoningEffort;
+  return EFFORT_LADDER.slice(1, EFFORT_LADDER.indexOf(top) + 1);
+}
+
+/**
+ * Map a requested effort onto the nearest level a model accepts, so one
+ * effort setting can drive every model. Supported levels and provider
+ * aliases pass through; otherwise the highest supported level below the
+ * request is used, or the lowest above it when there is none.
+ *
+ * @example
+ * ```typescript
+ * normalizeEffort('opus46T', ReasoningEffort.XHIGH);
+ * // → { requested: 'xhigh', effort: 'high', effective: 'high', adjustment: 'downgrade' }
+ * normalizeEffort('deepseekT', ReasoningEffort.MEDIUM);
+ * // → { requested: 'medium', effort: 'medium', effective: 'high', adjustment: 'alias' }
+ * normalizeEffort('gpt41', ReasoningEffort.HIGH);
+ * // → { requested: 'high', effort: undefined, effective: 'none', adjustment: 'fixed' }
+ * ```
+ */
+export function normalizeEffort(
+  this: unknown,
+  model: ModelConfig | string,
+  requested: ReasoningEffort,
+): NormalizedEffort {
+  const config = configOf(registryOf(this), model);
+  const { capabilities } = config;
+  const accepted = effortsFor(config);
+  if (accepted.length === 0) {
+    const effective = capabilities.supportsReasoning
+      ? capabilities.reasoningEffort
+      : ReasoningEffort.NONE;
+    const adjustment = requested === effective ? 'exact' : 'fixed';
+    return { requested, effort: undefined, effective, adjustment };
+  }
+
+  if (accepted.includes(requested)) {
+    return { requested, effort: requested, effective: requested, adjustment: 'exact' };
+  }
+  const alias = capabilities.reasoningEffortAliases?.[requested];
+  if (alias !== undefined) {
+    return { requested, effort: requested, effective: alias, adjustment: 'alias' };
+  }
+
+  const rank = (effort: ReasoningEffort) => EFFORT_LADDER.indexOf(effort);
+  const byRank = [...accepted].sort((a, b) => rank(a) - rank(b));
+  const below = byRank.filter((e) => rank(e) < rank(requested)).at(-1);
+  if (below !== undefined) {
+    return { requested, effort: below, effective: below, adjustment: 'downgrade' };
+  }
+  const above = byRank.find((e) => rank(e) > rank(requested)) ?? requested;
+  return { requested, effort: above, effective: above, adjustment: 'upgrade' };
+}
+
+// ============================================================================
+// Request Parameters
+// ============================================================================
+
+/**
+ * Provider request-body fields selecting a model's reasoning behavior, as
+ * returned by `requestParams()`. Only the fields of the model's protocol are
+ * set; spread them into the request body.
+ */
+export interface RequestParams {
+  /** Anthropic thinking mode; DeepSeek, Moonshot and GLM thinking switch */
+  thinking?:
+    { type: 'adaptive' } | { type: 'enabled'; budget_tokens?: number } | { type: 'disabled' };
+  /** Anthropic Messages effort */
+  output_config?: { effort: ReasoningEffort };
+  /** OpenAI Responses reasoning effort and mode */
+  reasoning?: { effort?: ReasoningEffort; mode?: 'pro' };
+  /** Chat Completions reasoning effort */
+  reasoning_effort?: ReasoningEffort;
+  /** OpenAI processing tier */
+  service_tier?: ServiceTier;
+  /** Gemini thinking configuration */
+  generationConfig?: {
+    thinkingConfig: { thinkingLevel?: ReasoningEffort; thinkingBudget?: number };
+  };
+}
+
+/**
+ * Options for `requestParams()`.
+ */
+export interface RequestOptions {
+  /** Reasoning effort to request @default the model's `reasoningEffort` */
+  effort?: ReasoningEffort;
+  /** Processing tier to request @default the entry's own tier */
+  serviceTier?: ServiceTier;
+  /** Thinking token budget for models without effort levels */
+  budgetTokens?: number;
+  /** Wire protocol to shape the fragment for @default `endpointFor(model).protocol` */
+  protocol?: ApiProtocol;
+}
+
+/**
+ * Anthropic thinking budget sent when the caller gives none. The API
+ * requires at least 1,024 tokens.
+ */
+const DEFAULT_THINKING_BUDGET = 16000;
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Check a requested effort against the model and return the effort to send,
+ * or undefined when the request carries none.
+ */
+function checkedEffort(
+  registry: RegistryState,
+  config: ModelConfig,
+  requested?: ReasoningEffort,
+): ReasoningEffort | undefined {
+  const counterpart = toggleThinking.call(registry, config);
+  if (requested === ReasoningEffort.NONE) {
+    if (!config.capabilities.supportsReasoning) return undefined;
+    const hint = counterpart ? `; use ${counterpart.name} for no thinking` : '';
+    throw new Error(`Model ${config.name} cannot disable reasoning${hint}`);
+  }
+
+  const accepted = effortsFor(config);
+  if (requested === undefined) {
+    return accepted.length > 0 ? config.capabilities.reasoningEffort : undefined;
+  }
+  if (accepted.length === 0) {
+    throw new Error(`Model ${config.name} does not accept a reasoning effort`);
+  }
+  if (!accepted.includes(requested) && !config.capabilities.reasoningEffortAliases?.[requested]) {
+    const hint =
+      counterpart && effortsFor(counterpart).includes(requested)
+        ? `; ${counterpart.name} does`
+        : '';
+    throw new Error(
+      `Model ${config.name} does not support reasoning effort ${requested} ` +
+        `(supported: ${accepted.join(', ')})${hint}`,
+    );
+  }
+  return requested;
+}
+
+/**
+ * Build the request-body fragment that selects a model's reasoning effort,
+ * thinking mode and service tier on its provider's API: Anthropic
+ * `thinking` / `output_config.effort`, OpenAI `reasoning` / `service_tier`,
+ * Gemini `thinkingConfig`, or Chat Completions `reasoning_effort` plus the
+ * DeepSeek / Moonshot / GLM `thinking` switch. Throws for combinations the
+ * model rejects.
+ *
+ * @example
+ * ```typescript
+ * requestParams('opus5T', { effort: ReasoningEffort.XHIGH });
+ * // → { thinking: { type: 'adaptive' }, output_config: { effort: 'xhigh' } }
+ * requestParams('gpt56pro');
+ * // → { reasoning: { effort: 'medium', mode: 'pro' } }
+ * requestParams('kimi26');
+ * // → { thinking: { type: 'disabled' } }
+ * requestParams('opus5', { effort: ReasoningEffort.XHIGH });
+ * // throws: Model opus5 does not support reasoning effort xhigh (...); opus5T does
+ * ```
+ */
+export function requestParams(
+  this: unknown,
+  model: ModelConfig | string,
+  options: RequestOptions = {},
+): RequestParams {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+  const { capabilities } = config;
+  const effort = checkedEffort(registry, config, options.effort);
+  const protocol = options.protocol ?? endpointFor(config).protocol;
+  const tier = options.serviceTier ?? config.serviceTier ?? 'standard';
+  if (tier !== (config.serviceTier ?? 'standard')) serviceTierOf(config, tier);
+
+  if (protocol === 'anthropic-messages') {
+    const params: RequestParams = {};
+    if (capabilities.supportsAdaptiveThinking) {
+      params.thinking = { type: 'adaptive' };
+    } else if (capabilities.supportsReasoning) {
+      const budget = options.budgetTokens ?? DEFAULT_THINKING_BUDGET;
+      if (budget < MIN_THINKING_BUDGET) {
+        throw new Error(
+          `Model ${config.name} needs a thinking budget of at least ${MIN_THINKING_BUDGET}`,
+        );
+      }
+      params.thinking = { type: 'enabled', budget_tokens: budget };
+    }
+    if (effort !== undefined) params.output_config = { effort };
+    return params;
+  }
+
+  if (protocol === 'gemini') {
+    if (!capabilities.supportsReasoning) return {};
+    const thinkingConfig =
+      effort !== undefined
+        ? { thinkingLevel: effort }
+        : { thinkingBudget: options.budgetTokens ?? -1 };
+    return { generationConfig: { thinkingConfig } };
+  }
+
+  const params: RequestParams = {};
+  if (protocol === 'openai-responses') {
+    if (effort !== undefined || capabilities.reasoningMode) {
+      params.reasoning = {
+        ...(effort !== undefined && { effort }),
+        ...(capabilities.reasoningMode && { mode: capabilities.reasoningMode }),
+      };
+    }
+  } else {
+    if (capabilities.reasoningMode) {
+      throw new Error(`Model ${config.name} needs the Responses API for reasoning mode`);
+    }
+    if (toggleThinking.call(registry, config) && config.provider !== ModelProvider.OPENAI) {
+      params.thinking = { type: capabilities.supportsReasoning ? 'enabled' : 'disabled' };
+    }
+    if (effort !== undefined) params.reasoning_effort = effort;
+  }
+  if (tier !== 'standard') params.service_tier = tier;
+  return params;
+}
+
+// ============================================================================
+// Cost Intelligence
+// ============================================================================
+
+/**
+ * Token counts for a request, as accepted by the cost functions.
+ * `cached` and `cacheWrite` are the parts of `input` read from and written
+ * to the prompt cache; the remainder is billed at the normal input price.
+ * `reasoning` is the hidden thinking part of `output`. Parts larger than
+ * their total throw a `RangeError`.
+ */
+export interface TokenUsage {
+  /** Total prompt tokens, including cache reads and writes */
+  input: number;
+  /** Generated tokens, including reasoning */
+  output: number;
+  /** Hidden thinking tokens billed as output */
+  reasoning?: number;
+  /** Prompt tokens served from the cache */
+  cached?: number;
+  /** Prompt tokens written to the cache */
+  cacheWrite?: number;
+  /** Lifetime of the cache entries written by this request @default '5m' */
+  cacheTtl?: CacheTtl;
+  /**
+   * Hours the written tokens stay in storage, for models that bill cache
+   * storage by the hour. Defaults to the length of `cacheTtl` when given,
+   * else to the provider's default cache lifetime (one hour for Gemini).
+   */
+  cacheStorageHours?: number;
+  /** Native tool calls made while serving the request */
+  tools?: ToolUsage;
+  /** Images, audio, PDFs and video sent on top of the `input` text tokens */
+  media?: MediaUsage;
+}
+
+/**
+ * Non-text input for a request, converted to input tokens with the model's
+ * `modalityPricing` rules.
+ */
+export interface MediaUsage {
+  /** Pixel dimensions of each input image */
+  images?: { width: number; height: number }[];
+  /** Seconds of audio input */
+  audioSeconds?: number;
+  /** Pages of PDF input */
+  pdfPages?: number;
+  /** Seconds of video input */
+  videoSeconds?: number;
+}
+
+/**
+ * Input tokens for each modality of a request's media, as returned by
+ * `mediaTokens()`.
+ */
+export interface MediaTokens {
+  images: number;
+  audio: number;
+  pdf: number;
+  video: number;
+  /** Sum of all modalities */
+  total: number;
+}
+
+/**
+ * Native tool usage for a request, billed from the model's `toolPricing`.
+ */
+export interface ToolUsage {
+  /** Native web search calls */
+  webSearches?: number;
+  /** Code execution container time in seconds */
+  codeExecSeconds?: number;
+  /**
+   * Code execution containers started. Counts as one when only
+   * `codeExecSeconds` is given and the model bills per session.
+   */
+  codeExecSessions?: number;
+  /** Native MCP server tool calls */
+  mcpCalls?: number;
 }
 
 /**
- * Check if a model exists.
+ * Pricing options shared by the cost functions.
  */
-export function exists(name: string): boolean {
-  return name in MODEL_CONFIGS;
+export interface CostOptions {
+  /** Date whose price schedule applies @default today */
+  at?: Date;
+  /** Interactive or Batch API pricing @default 'standard' */
+  mode?: PricingMode;
+  /** Processing tier the request is served on @default the entry's own tier */
+  serviceTier?: ServiceTier;
+  /** Platform the request is sent to, applying its price override @default 'direct' */
+  platform?: Platform;
 }
 
-// ============================================================================
-// Filtering - Fluent Predicates
-// ============================================================================
+/**
+ * Line items of a request's cost in USD, as returned by `costBreakdown()`.
+ */
+export interface CostBreakdown {
+  /** Uncached prompt tokens */
+  input: number;
+  /** Prompt tokens read from the cache */
+  cached: number;
+  /** Prompt tokens written to the cache */
+  cacheWrite: number;
+  /** Storage time of the written cache entries */
+  cacheStorage: number;
+  /** Visible output tokens */
+  output: number;
+  /** Hidden thinking tokens */
+  reasoning: number;
+  /** Image, audio, PDF and video input */
+  media: number;
+  /** Native tool calls */
+  tools: number;
+  /** Sum of all line items */
+  total: number;
+}
+
+/** Length of each cache TTL in hours. */
+const CACHE_TTL_HOURS: Record<CacheTtl, number> = {
+  '5m': 5 / 60,
+  '1h': 1,
+};
 
 /**
- * Get all models from a provider.
- *
- * @example
- * ```typescript
- * const claudeModels = from(ModelProvider.ANTHROPIC);
- * const geminiModels = from(ModelProvider.GOOGLE);
- * ```
+ * Lifetime in hours of a cache created without a TTL, for providers whose
+ * default differs from the 5-minute Anthropic one. Gemini context caches
+ * live one hour unless the request sets a TTL.
  */
-export function from(provider: ModelProvider): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => m.provider === provider);
+const DEFAULT_CACHE_HOURS: Partial<Record<ModelProvider, number>> = {
+  [ModelProvider.GOOGLE]: 1,
+};
+
+/**
+ * Pricing data for a billable feature, checking the model supports the
+ * feature and has published pricing for it.
+ */
+function featurePricing<T>(
+  config: ModelConfig,
+  feature: string,
+  supported: boolean,
+  pricing: T | undefined,
+): T {
+  if (!supported) {
+    throw new Error(`Model ${config.name} does not support ${feature}`);
+  }
+  if (pricing === undefined) {
+    throw new Error(`Model ${config.name} has no ${feature} pricing`);
+  }
+  return pricing;
 }
 
 /**
- * Find models matching a capability predicate.
- *
- * @example
- * ```typescript
- * // Vision + reasoning models
- * const smart = where(c => c.supportsVision && c.supportsReasoning);
- *
- * // Models with great caching
- * const cached = where(c => c.cacheDiscountFactor <= 0.1);
- * ```
+ * Cost in USD of the native tool calls made during a request.
  */
-export function where(
-  predicate: (capabilities: ModelCapabilities) => boolean,
-): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => predicate(m.capabilities));
+function toolCost(config: ModelConfig, tools: ToolUsage): number {
+  const { webSearches = 0, codeExecSeconds = 0, mcpCalls = 0 } = tools;
+  const { capabilities, toolPricing = {} } = config;
+  let total = 0;
+
+  if (webSearches > 0) {
+    const price = featurePricing(
+      config,
+      'native web search',
+      capabilities.supportsNativeWebSearch,
+      toolPricing.webSearchPerThousand,
+    );
+    total += (webSearches / 1000) * price;
+  }
+
+  const { codeExecutionPerHour, codeExecutionPerSession } = toolPricing;
+  const codeExecSessions = tools.codeExecSessions ?? (codeExecSeconds > 0 ? 1 : 0);
+  if (codeExecSeconds > 0 || codeExecSessions > 0) {
+    const priced = codeExecutionPerHour ?? codeExecutionPerSession;
+    featurePricing(
+      config,
+      'native code execution',
+      capabilities.supportsNativeCodeExecution,
+      priced,
+    );
+    total += (codeExecSeconds / 3600) * (codeExecutionPerHour ?? 0);
+    total += codeExecSessions * (codeExecutionPerSession ?? 0);
+  }
+
+  if (mcpCalls > 0) {
+    const price = featurePricing(
+      config,
+      'native MCP',
+      capabilities.supportsNativeMCPServer,
+      toolPricing.mcpCallPerThousand,
+    );
+    total += (mcpCalls / 1000) * price;
+  }
+
+  return total;
 }
 
 /**
- * Get models supporting a specific capability.
- *
- * @example
- * ```typescript
- * const reasoners = supporting('supportsReasoning');
- * const visionaries = supporting('supportsVision');
- * const coders = supporting('supportsNativeCodeExecution');
- * ```
+ * Input tokens for one image under a model's image rule.
  */
-export function supporting(
-  capability: keyof ModelCapabilities,
-): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => {
-    const value = m.capabilities[capability];
-    return typeof value === 'boolean' ? value : value !== undefined;
-  });
+function imageTokens(rule: ImageTokenRule, image: { width: number; height: number }): number {
+  switch (rule.kind) {
+    case 'pixels':
+      return Math.min(
+        rule.maxTokens,
+        Math.ceil((image.width * image.height) / rule.pixelsPerToken),
+      );
+    case 'flat':
+      return rule.tokensPerImage;
+    case 'tiles': {
+      let { width, height } = image;
+      if (rule.maxDimension && Math.max(width, height) > rule.maxDimension) {
+        const scale = rule.maxDimension / Math.max(width, height);
+        width *= scale;
+        height *= scale;
+      }
+      if (rule.shortSide && Math.min(width, height) > rule.shortSide) {
+        const scale = rule.shortSide / Math.min(width, height);
+        width *= scale;
+        height *= scale;
+      }
+      const tiles = Math.ceil(width / rule.tileSize) * Math.ceil(height / rule.tileSize);
+      return rule.baseTokens + tiles * rule.tokensPerTile;
+    }
+  }
 }
 
 /**
- * Filter by context window size.
+ * Convert a request's images, audio, PDFs and video to input tokens using
+ * the model's modality rules. Throws when the model does not accept a
+ * modality or has no conversion rule for it.
  *
  * @example
  * ```typescript
- * const longContext = withContext(200000);  // 200K+ context
- * const million = withContext(1000000);     // 1M+ context
+ * mediaTokens('gemini37f', { pdfPages: 300 }).total; // → 168000
+ * mediaTokens('sonnet5', { images: [{ width: 1000, height: 1000 }] }).images; // → 1334
  * ```
  */
-export function withContext(minTokens: number): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter(
-    (m) => m.contextWindow >= minTokens,
-  );
-}
+export function mediaTokens(
+  this: unknown,
+  model: ModelConfig | string,
+  media: MediaUsage,
+): MediaTokens {
+  const config = configOf(registryOf(this), model);
+  const { capabilities, modalityPricing = {} } = config;
+  const { images = [], audioSeconds = 0, pdfPages = 0, videoSeconds = 0 } = media;
+  const tokens = { images: 0, audio: 0, pdf: 0, video: 0 };
 
-/**
- * Get models accessible via direct API (not OpenRouter-only).
- */
-export function directAccess(): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => !m.openRouterOnly);
+  if (images.length > 0) {
+    const rule = featurePricing(
+      config,
+      'image input',
+      capabilities.supportsVision,
+      modalityPricing.image,
+    );
+    tokens.images = images.reduce((sum, image) => sum + imageTokens(rule, image), 0);
+  }
+  if (audioSeconds > 0) {
+    const perSecond = featurePricing(
+      config,
+      'audio input',
+      capabilities.supportsNativeAudio,
+      modalityPricing.audioTokensPerSecond,
+    );
+    tokens.audio = Math.ceil(audioSeconds * perSecond);
+  }
+  if (pdfPages > 0) {
+    const perPage = featurePricing(
+      config,
+      'PDF input',
+      capabilities.supportsNativePdf,
+      modalityPricing.pdfTokensPerPage,
+    );
+    tokens.pdf = pdfPages * perPage;
+  }
+  if (videoSeconds > 0) {
+    const perSecond = featurePricing(
+      config,
+      'video input',
+      modalityPricing.videoTokensPerSecond !== undefined,
+      modalityPricing.videoTokensPerSecond,
+    );
+    tokens.video = Math.ceil(videoSeconds * perSecond);
+  }
+
+  return { ...tokens, total: tokens.images + tokens.audio + tokens.pdf + tokens.video };
 }
 
 /**
- * Get models only available through OpenRouter.
+ * A model's service tier entry, throwing when the tier is not offered.
  */
-export function openRouterOnly(): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => m.openRouterOnly);
+function serviceTierOf(config: ModelConfig, tier: ServiceTier): ServiceTierPricing {
+  const entry = tiers(config).find((t) => t.tier === tier);
+  if (!entry?.available) {
+    throw new Error(`Model ${config.name} has no ${tier} service tier`);
+  }
+  return entry;
 }
 
 /**
- * Get models that have been retired and are no longer served.
+ * Get the service tiers offered for a model, with price multipliers relative
+ * to the standard tier and the registry entry that represents each tier.
+ * Models without tier data report the standard tier only.
  *
  * @example
  * ```typescript
- * const gone = retired();
- * console.log(`${gone.length} models are no longer available`);
+ * tiers('gpt56');
+ * // → [{ tier: 'flex', inputMultiplier: 0.5, ... },
+ * //    { tier: 'standard', ..., model: 'gpt56' },
+ * //    { tier: 'fast', inputMultiplier: 2, ..., model: 'gpt56fast' }]
  * ```
  */
-export function retired(): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => m.retired === true);
+export function tiers(this: unknown, model: ModelConfig | string): readonly ServiceTierPricing[] {
+  const config = configOf(registryOf(this), model);
+  return (
+    config.serviceTiers ?? [
+      { tier: 'standard', inputMultiplier: 1, outputMultiplier: 1, available: true },
+    ]
+  );
 }
 
 /**
- * Get only active (non-retired) models.
+ * Get the per-million-token rates that apply to a request.
+ * The price schedule window covering `at` (default: today) is applied first;
+ * long-context tiers are then selected from the prompt size, so a
+ * 300K-token Gemini Pro prompt is priced at the over-200K rates. A
+ * `serviceTier` other than the entry's own uses the linked tier entry, or
+ * scales the standard-tier rates by the tier's multipliers. A `platform`
+ * applies that platform's price override, if it has one.
  *
  * @example
  * ```typescript
- * const available = active();
- * console.log(`${available.length} models are currently available`);
+ * rates('gemini25p');                    // → { inputPrice: 1.25, outputPrice: 10 }
+ * rates('gemini25p', { input: 300000 }); // → { inputPrice: 2.5, outputPrice: 15 }
+ * rates('sonnet5', { at: new Date('2026-08-01') }); // → introductory $2 / $10
+ * rates('sonnet46', { mode: 'batch' });  // → { inputPrice: 1.5, outputPrice: 7.5 }
+ * rates('gpt54', { serviceTier: 'flex' }); // → half the Standard rates
+ * rates('sonnet45', { platform: 'bedrock' }); // → Bedrock's rates for the model
  * ```
  */
-export function active(): ModelConfig[] {
-  return Object.values(MODEL_CONFIGS).filter((m) => !m.retired);
-}
+export function rates(
+  this: unknown,
+  model: ModelConfig | string,
+  options: CostOptions & { input?: number } = {},
+): { inputPrice: number; outputPrice: number } {
+  const registry = registryOf(this);
+  const { serviceTier, ...tierOptions } = options;
+  const own = configOf(registry, model);
+  if (serviceTier !== undefined && serviceTier !== (own.serviceTier ?? 'standard')) {
+    const tier = serviceTierOf(own, serviceTier);
+    if (tier.model !== undefined) return rates.call(registry, tier.model, tierOptions);
 
-// ============================================================================
-// Cost Intelligence
-// ============================================================================
+    const standardModel = serviceTierOf(own, 'standard').model ?? own;
+    const standard = rates.call(registry, standardModel, tierOptions);
+    return {
+      inputPrice: standard.inputPrice * tier.inputMultiplier,
+      outputPrice: standard.outputPrice * tier.outputMultiplier,
+    };
+  }
+
+  const config = priceOn(registry, priceAt(own, options.at), options.platform);
+  const { input = 0, mode = 'standard' } = options;
+  let inputPrice = config.inputPrice;
+  let outputPrice = config.outputPrice;
+  for (const tier of config.pricingTiers ?? []) {
+    if (input > tier.aboveInputTokens) {
+      inputPrice = tier.inputPrice;
+      outputPrice = tier.outputPrice;
+    }
+  }
+
+  if (mode === 'batch') {
+    if (config.batchDiscountFactor === undefined) {
+      throw new Error(`Model ${config.name} has no batch pricing`);
+    }
+    inputPrice *= config.batchDiscountFactor;
+    outputPrice *= config.batchDiscountFactor;
+  }
+
+  return { inputPrice, outputPrice };
+}
 
 /**
  * Calculate exact cost for a request.
@@ -170,47 +1579,203 @@ export function active(): ModelConfig[] {
  *   output: 5000,
  *   cached: 8000  // 8K tokens were cache hits
  * });
+ *
+ * // Cache writes, billed at the TTL's write premium
+ * const loop = cost('sonnet46', {
+ *   input: 60000,
+ *   output: 2000,
+ *   cached: 40000,
+ *   cacheWrite: 15000,
+ *   cacheTtl: '1h',
+ * });
+ *
+ * // Long prompts are billed at the model's long-context tier
+ * const long = cost('gemini25p', { input: 300000, output: 5000 });
+ *
+ * // Price a past request at the rates in effect that day
+ * const july = cost('sonnet5', { input: 10000, output: 5000 }, { at: new Date('2026-07-15') });
+ *
+ * // Submitted through the Batch API
+ * const nightly = cost('gpt56', { input: 10000, output: 5000 }, { mode: 'batch' });
+ *
+ * // Reasoning tokens are part of output and cost the same per token
+ * const thought = cost('opus5T', { input: 10000, output: 8000, reasoning: 6000 });
+ *
+ * // Native tool calls are billed on top of tokens
+ * const research = cost('sonnet46', {
+ *   input: 40000,
+ *   output: 3000,
+ *   tools: { webSearches: 12, codeExecSeconds: 300 },
+ * });
+ *
+ * // Quote a 300-page PDF before uploading it
+ * const quote = cost('gemini37f', { input: 500, output: 4000, media: { pdfPages: 300 } });
+ *
+ * // Same request on OpenAI Flex processing
+ * const flex = cost('gpt54', { input: 10000, output: 5000 }, { serviceTier: 'flex' });
  * ```
  */
 export function cost(
+  this: unknown,
   model: ModelConfig | string,
-  tokens: { input: number; output: number; cached?: number },
+  tokens: TokenUsage,
+  options: CostOptions = {},
 ): number {
-  const config = typeof model === 'string' ? lookup(model) : model;
-  if (!config) {
-    throw new Error(`Unknown model: ${model}`);
+  return costBreakdown.call(this, model, tokens, options).total;
+}
+
+/**
+ * Calculate the cost of a request split into line items.
+ * Takes the same usage and options as `cost()`; reasoning tokens are
+ * reported separately from the visible output they are billed with.
+ *
+ * @example
+ * ```typescript
+ * const bill = costBreakdown('opus5T', { input: 20000, output: 12000, reasoning: 9000 });
+ * console.log(`Thinking: $${bill.reasoning.toFixed(3)} of $${bill.total.toFixed(3)}`);
+ * ```
+ */
+export function costBreakdown(
+  this: unknown,
+  model: ModelConfig | string,
+  tokens: TokenUsage,
+  options: CostOptions = {},
+): CostBreakdown {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+
+  const {
+    input,
+    output,
+    reasoning = 0,
+    cached = 0,
+    cacheWrite = 0,
+    cacheTtl = '5m',
+    tools = {},
+    media = {},
+  } = tokens;
+  if (cached + cacheWrite > input) {
+    throw new RangeError(
+      `Cached (${cached}) and cache-write (${cacheWrite}) tokens exceed input tokens (${input})`,
+    );
+  }
+  if (reasoning > output) {
+    throw new RangeError(`Reasoning tokens (${reasoning}) exceed output tokens (${output})`);
+  }
+  const cacheStorageHours =
+    tokens.cacheStorageHours ??
+    (tokens.cacheTtl === undefined ? DEFAULT_CACHE_HOURS[config.provider] : undefined) ??
+    CACHE_TTL_HOURS[cacheTtl];
+  const uncached = input - cached - cacheWrite;
+  const converted = mediaTokens(config, media);
+  const { inputPrice, outputPrice } = rates.call(registry, config, {
+    input: input + converted.total,
+    ...options,
+  });
+  // Audio follows the same tier and schedule as text, scaled by its list-price ratio
+  const audioInputPrice = config.modalityPricing?.audioInputPrice;
+  let audioPrice = inputPrice;
+  if (audioInputPrice !== undefined) {
+    audioPrice =
+      config.inputPrice > 0 ? inputPrice * (audioInputPrice / config.inputPrice) : audioInputPrice;
   }
+  const { cacheDiscountFactor, cacheWriteFactors, cacheStoragePrice = 0 } = config.capabilities;
 
-  const { input, output, cached = 0 } = tokens;
-  const uncached = input - cached;
+  const breakdown = {
+    input: (uncached / 1_000_000) * inputPrice,
+    cached: (cached / 1_000_000) * inputPrice * cacheDiscountFactor,
+    cacheWrite: (cacheWrite / 1_000_000) * inputPrice * (cacheWriteFactors?.[cacheTtl] ?? 1),
+    cacheStorage: (cacheWrite / 1_000_000) * cacheStoragePrice * cacheStorageHours,
+    output: ((output - reasoning) / 1_000_000) * outputPrice,
+    reasoning: (reasoning / 1_000_000) * outputPrice,
+    media:
+      ((converted.total - converted.audio) / 1_000_000) * inputPrice +
+      (converted.audio / 1_000_000) * audioPrice,
+    tools: toolCost(config, tools),
+  };
+
+  return {
+    ...breakdown,
+    total:
+      breakdown.input +
+      breakdown.cached +
+      breakdown.cacheWrite +
+      breakdown.cacheStorage +
+      breakdown.output +
+      breakdown.reasoning +
+      breakdown.media +
+      breakdown.tools,
+  };
+}
 
-  const inputCost = (uncached / 1_000_000) * config.inputPrice;
-  const cacheCost =
-    (cached / 1_000_000) * config.inputPrice * config.capabilities.cacheDiscountFactor;
-  const outputCost = (output / 1_000_000) * config.outputPrice;
+/**
+ * Get the expected billed output tokens per visible output token at a
+ * reasoning effort (default: the model's configured effort).
+ * Models without reasoning return 1; reasoning models without an effort
+ * setting are budgeted at the `medium` level.
+ *
+ * @example
+ * ```typescript
+ * reasoningOverhead('opus5T');                       // → 5 (high)
+ * reasoningOverhead('opus5T', ReasoningEffort.MAX);  // → 10
+ * reasoningOverhead('opus5');                        // → 1
+ * ```
+ */
+export function reasoningOverhead(
+  this: unknown,
+  model: ModelConfig | string,
+  effort?: ReasoningEffort,
+): number {
+  const { capabilities } = configOf(registryOf(this), model);
+  if (!capabilities.supportsReasoning) return 1;
 
-  return inputCost + cacheCost + outputCost;
+  let level = effort ?? capabilities.reasoningEffort;
+  if (level === ReasoningEffort.NONE && !capabilities.supportsReasoningEffort) {
+    level = ReasoningEffort.MEDIUM;
+  }
+  return capabilities.reasoningOverhead?.[level] ?? DEFAULT_REASONING_OVERHEAD[level];
 }
 
 /**
  * Estimate worst-case cost (max output tokens).
+ * The prompt size selects the long-context pricing tier, as in `cost()`.
+ * Given an expected visible `output`, budgets hidden thinking on top of it
+ * using the model's reasoning overhead, capped at the max output tokens.
  *
  * @example
  * ```typescript
  * const worst = maxCost('gpt4o', 50000);
  * console.log(`Budget up to $${worst.toFixed(2)}`);
+ *
+ * // A 2K-token answer from a thinking model at max effort
+ * const budget = maxCost('opus5T', 50000, { output: 2000, effort: ReasoningEffort.MAX });
  * ```
  */
-export function maxCost(model: ModelConfig | string, inputTokens: number): number {
-  const config = typeof model === 'string' ? lookup(model) : model;
-  if (!config) {
-    throw new Error(`Unknown model: ${model}`);
+export function maxCost(
+  this: unknown,
+  model: ModelConfig | string,
+  inputTokens: number,
+  options: CostOptions & { output?: number; effort?: ReasoningEffort } = {},
+): number {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+  const { output, effort, ...costOptions } = options;
+  if (output === undefined) {
+    const usage = { input: inputTokens, output: config.maxOutputTokens };
+    return cost.call(registry, config, usage, costOptions);
   }
-  return cost(config, { input: inputTokens, output: config.maxOutputTokens });
+
+  const billed = Math.min(
+    config.maxOutputTokens,
+    Math.ceil(output * reasoningOverhead(config, effort)),
+  );
+  return cost.call(registry, config, { input: inputTokens, output: billed }, costOptions);
 }
 
 /**
  * Compare cost across models for the same workload.
+ * In batch mode, models without a Batch API are left out rather than
+ * failing the whole comparison.
  *
  * @example
  * ```typescript
@@ -219,21 +1784,137 @@ export function maxCost(model: ModelConfig | string, inputTokens: number): numbe
  *   { input: 10000, output: 2000 }
  * );
  * // Returns sorted by cost: [{ model, cost }, ...]
+ *
+ * // Batch pricing for every candidate that has it
+ * compareCosts(['gpt56', 'glm47flash'], { input: 10000, output: 2000 }, { mode: 'batch' });
+ * // → [{ model: gpt56, cost }] (glm47flash has no Batch API)
  * ```
  */
 export function compareCosts(
+  this: unknown,
   models: (ModelConfig | string)[],
-  tokens: { input: number; output: number; cached?: number },
+  tokens: TokenUsage,
+  options: CostOptions = {},
 ): { model: ModelConfig; cost: number }[] {
+  const registry = registryOf(this);
   return models
-    .map((m) => {
-      const config = typeof m === 'string' ? lookup(m) : m;
-      if (!config) throw new Error(`Unknown model: ${m}`);
-      return { model: config, cost: cost(config, tokens) };
-    })
+    .map((model) => configOf(registry, model))
+    .filter((config) => options.mode !== 'batch' || config.batchDiscountFactor !== undefined)
+    .map((config) => ({ model: config, cost: cost.call(registry, config, tokens, options) }))
     .sort((a, b) => a.cost - b.cost);
 }
 
+// ============================================================================
+// Token Estimation
+// ============================================================================
+
+/**
+ * A chat message for `estimateTokens()`: a role and its text content.
+ */
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+/**
+ * Calibrated tokenizer heuristic: characters per token for alphabetic text,
+ * tokens per CJK character, and the framing added to each chat message.
+ */
+interface TokenHeuristic {
+  charsPerToken: number;
+  tokensPerCjkChar: number;
+  tokensPerMessage: number;
+}
+
+/**
+ * Offline token heuristics per provider tokenizer family, calibrated on
+ * English prose and the providers' published character-per-token ratios.
+ * Expect estimates within about 10-15% for prose; code and unusual scripts
+ * vary more.
+ */
+const TOKEN_HEURISTICS: Record<ModelProvider, TokenHeuristic> = {
+  // o200k_base
+  [ModelProvider.OPENAI]: { charsPerToken: 4, tokensPerCjkChar: 0.75, tokensPerMessage: 3 },
+  [ModelProvider.COPILOT]: { charsPerToken: 4, tokensPerCjkChar: 0.75, tokensPerMessage: 3 },
+  // Claude's tokenizer splits English more finely than o200k
+  [ModelProvider.ANTHROPIC]: { charsPerToken: 3.5, tokensPerCjkChar: 1, tokensPerMessage: 4 },
+  // Gemini: "a token is about 4 characters"
+  [ModelProvider.GOOGLE]: { charsPerToken: 4, tokensPerCjkChar: 0.75, tokensPerMessage: 4 },
+  // DeepSeek: ~0.3 tokens per English character, ~0.6 per Chinese character
+  [ModelProvider.DEEPSEEK]: { charsPerToken: 3.3, tokensPerCjkChar: 0.6, tokensPerMessage: 4 },
+  [ModelProvider.MOONSHOT]: { charsPerToken: 3.5, tokensPerCjkChar: 0.6, tokensPerMessage: 4 },
+  [ModelProvider.GLM]: { charsPerToken: 3.5, tokensPerCjkChar: 0.6, tokensPerMessage: 4 },
+  [ModelProvider.DASHSCOPE]: { charsPerToken: 3.5, tokensPerCjkChar: 0.7, tokensPerMessage: 4 },
+  [ModelProvider.MINIMAX]: { charsPerToken: 3.5, tokensPerCjkChar: 0.6, tokensPerMessage: 4 },
+  [ModelProvider.XAI]: { charsPerToken: 4, tokensPerCjkChar: 0.75, tokensPerMessage: 4 },
+  [ModelProvider.META]: { charsPerToken: 4, tokensPerCjkChar: 1, tokensPerMessage: 4 },
+  [ModelProvider.OTHERS]: { charsPerToken: 3.5, tokensPerCjkChar: 1, tokensPerMessage: 4 },
+};
+
+/** Han, kana and Hangul characters, which tokenize close to one token each */
+const CJK_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+function textTokens(text: string, heuristic: TokenHeuristic): number {
+  const cjk = text.match(CJK_CHARS)?.length ?? 0;
+  const other = text.length - cjk;
+  return other / heuristic.charsPerToken + cjk * heuristic.tokensPerCjkChar;
+}
+
+/**
+ * Estimate the tokens a model's tokenizer produces for a text or chat
+ * messages, offline. Uses a calibrated heuristic for the provider's
+ * tokenizer family; prefer provider-side counting (`supportsTokenCounting`)
+ * when exact numbers matter.
+ *
+ * @example
+ * ```typescript
+ * estimateTokens('gpt56', 'Summarize the attached report in three bullets.'); // → 12
+ * estimateTokens('sonnet46', [
+ *   { role: 'system', content: 'You are terse.' },
+ *   { role: 'user', content: 'Explain TCP slow start.' },
+ * ]);
+ * ```
+ */
+export function estimateTokens(
+  this: unknown,
+  model: ModelConfig | string,
+  input: string | readonly ChatMessage[],
+): number {
+  const heuristic = TOKEN_HEURISTICS[configOf(registryOf(this), model).provider];
+  if (typeof input === 'string') return Math.ceil(textTokens(input, heuristic));
+  const tokens = input.reduce(
+    (sum, message) =>
+      sum + textTokens(message.role, heuristic) + textTokens(message.content, heuristic),
+    0,
+  );
+  return Math.ceil(tokens + input.length * heuristic.tokensPerMessage);
+}
+
+/**
+ * Estimate the cost of a request from its prompt text, without token counts.
+ * `expectedOutput` is a token count, or a sample answer to estimate.
+ *
+ * @example
+ * ```typescript
+ * const budget = costForText('sonnet46', document, 800);
+ * if (budget > 0.05) throw new Error('Prompt too expensive');
+ * ```
+ */
+export function costForText(
+  this: unknown,
+  model: ModelConfig | string,
+  prompt: string | readonly ChatMessage[],
+  expectedOutput: number | string,
+  options: CostOptions = {},
+): number {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+  const input = estimateTokens(config, prompt);
+  const output =
+    typeof expectedOutput === 'number' ? expectedOutput : estimateTokens(config, expectedOutput);
+  return cost.call(registry, config, { input, output }, options);
+}
+
 // ============================================================================
 // Smart Selection
 // ============================================================================
@@ -251,19 +1932,29 @@ export function compareCosts(
  *   { supportsReasoning: true },
  *   { minContext: 100000 }
  * );
+ *
+ * // Cheapest vision model at Batch API prices
+ * const nightly = cheapest({ supportsVision: true }, { mode: 'batch' });
  * ```
  */
 export function cheapest(
+  this: unknown,
   capabilities: Partial<ModelCapabilities>,
-  options?: { minContext?: number; provider?: ModelProvider },
+  options?: { minContext?: number; provider?: ModelProvider; mode?: PricingMode },
 ): ModelConfig | undefined {
-  const candidates = Object.values(MODEL_CONFIGS).filter((m) => {
+  const registry = registryOf(this);
+  const mode = options?.mode ?? 'standard';
+  const price = (m: ModelConfig) => listPrice(registry, m, { mode });
+  const candidates = Object.values(registry.configs).filter((m) => {
     if (options?.minContext && m.contextWindow < options.minContext) {
       return false;
     }
     if (options?.provider && m.provider !== options.provider) {
       return false;
     }
+    if (mode === 'batch' && m.batchDiscountFactor === undefined) {
+      return false;
+    }
     for (const [key, value] of Object.entries(capabilities)) {
       if (m.capabilities[key as keyof ModelCapabilities] !== value) {
         return false;
@@ -274,9 +1965,7 @@ export function cheapest(
 
   if (candidates.length === 0) return undefined;
 
-  return candidates.sort(
-    (a, b) => a.inputPrice + a.outputPrice - (b.inputPrice + b.outputPrice),
-  )[0];
+  return candidates.sort((a, b) => price(a) - price(b))[0];
 }
 
 /**
@@ -293,11 +1982,14 @@ export function cheapest(
  * ```
  */
 export function smartpick(
+  this: unknown,
   maxPricePerMillion: number,
   capabilities?: Partial<ModelCapabilities>,
 ): ModelConfig | undefined {
-  let candidates = Object.values(MODEL_CONFIGS).filter(
-    (m) => m.inputPrice + m.outputPrice <= maxPricePerMillion,
+  const registry = registryOf(this);
+  const price = (m: ModelConfig) => listPrice(registry, m);
+  let candidates = Object.values(registry.configs).filter(
+    (m) => price(m) <= maxPricePerMillion,
   );
 
   if (capabilities) {
@@ -314,9 +2006,7 @@ export function smartpick(
   if (candidates.length === 0) return undefined;
 
   // Higher price generally = more capable, so return the priciest under budget
-  return candidates.sort(
-    (a, b) => (b.inputPrice + b.outputPrice) - (a.inputPrice + a.outputPrice),
-  )[0];
+  return candidates.sort((a, b) => price(b) - price(a))[0];
 }
 
 /**
@@ -330,13 +2020,15 @@ export function smartpick(
  * ```
  */
 export function ranked(
+  this: unknown,
   by: 'price' | 'context' | 'output',
   order: 'asc' | 'desc' = 'asc',
 ): ModelConfig[] {
+  const registry = registryOf(this);
   const getValue = (m: ModelConfig): number => {
     switch (by) {
       case 'price':
-        return m.inputPrice + m.outputPrice;
+        return listPrice(registry, m);
       case 'context':
         return m.contextWindow;
       case 'output':
@@ -344,7 +2036,7 @@ export function ranked(
     }
   };
 
-  return Object.values(MODEL_CONFIGS).sort((a, b) => {
+  return Object.values(registry.configs).sort((a, b) => {
     const diff = getValue(a) - getValue(b);
     return order === 'asc' ? diff : -diff;
   });
@@ -395,15 +2087,14 @@ function formatPrice(price: number): string {
  * // → "200K context, $15/$75 per 1M tokens"
  * ```
  */
-export function hint(model: ModelConfig | string): string {
-  const config = typeof model === 'string' ? lookup(model) : model;
-  if (!config) {
-    throw new Error(`Unknown model: ${model}`);
-  }
+export function hint(this: unknown, model: ModelConfig | string): string {
+  const registry = registryOf(this);
+  const config = configOf(registry, model);
+  const { inputPrice, outputPrice } = rates.call(registry, config);
 
   const ctx = formatTokens(config.contextWindow);
-  const input = formatPrice(config.inputPrice);
-  const output = formatPrice(config.outputPrice);
+  const input = formatPrice(inputPrice);
+  const output = formatPrice(outputPrice);
 
   return `${ctx} context, ${input}/${output} per 1M tokens`;
 }
@@ -421,14 +2112,15 @@ export function hint(model: ModelConfig | string): string {
  * console.log(`${totalModels} models across ${Object.keys(providers).length} providers`);
  * ```
  */
-export function insights(): {
+export function insights(this: unknown): {
   totalModels: number;
   providers: Record<ModelProvider, number>;
   capabilities: Record<string, number>;
   pricing: { cheapest: ModelConfig; mostExpensive: ModelConfig };
   context: { smallest: ModelConfig; largest: ModelConfig };
 } {
-  const models = Object.values(MODEL_CONFIGS);
+  const registry = registryOf(this);
+  const models = Object.values(registry.configs);
 
   // Count by provider
   const providers = {} as Record<ModelProvider, number>;
@@ -458,9 +2150,7 @@ export function insights(): {
   }
 
   // Extremes
-  const byPrice = [...models].sort(
-    (a, b) => a.inputPrice + a.outputPrice - (b.inputPrice + b.outputPrice),
-  );
+  const byPrice = [...models].sort((a, b) => listPrice(registry, a) - listPrice(registry, b));
   const byContext = [...models].sort((a, b) => a.contextWindow - b.contextWindow);
 
   return {
@@ -478,6 +2168,295 @@ export function insights(): {
   };
 }
 
+// ============================================================================
+// Integrity
+// ============================================================================
+
+/** Semantic rules checked by `validateRegistry()`. */
+export type RegistryRule =
+  | 'name-matches-key'
+  | 'default-effort-supported'
+  | 'max-effort-at-least-default'
+  | 'dynamic-filtering-needs-code-execution'
+  | 'retired-is-deprecated'
+  | 'reference-exists';
+
+/**
+ * A broken invariant reported by `validateRegistry()`.
+ */
+export interface RegistryFinding {
+  /** Registry key of the model at fault */
+  model: string;
+  /** Rule that failed */
+  rule: RegistryRule;
+  /** Dotted path of the offending field, e.g. `capabilities.reasoningEffort` */
+  field: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Check a model table for invariants the schemas cannot express: keys equal
+ * `name`, the default effort is one the model accepts, `maxReasoningEffort`
+ * is at or above the default, dynamic-filtering web search comes with code
+ * execution, retired models are deprecated, and `supersededBy`,
+ * `successorOf` and `variantOf` name registered models. Returns an empty
+ * array when the table is consistent.
+ *
+ * @example
+ * ```typescript
+ * validateRegistry(); // → [] for the built-in models
+ *
+ * const registry = applyOverlays([overlay]);
+ * for (const finding of registry.validateRegistry()) {
+ *   console.warn(`${finding.model} ${finding.field}: ${finding.message}`);
+ * }
+ * ```
+ */
+export function validateRegistry(
+  this: unknown,
+  models: Readonly<Record<string, ModelConfig>> = registryOf(this).configs,
+): RegistryFinding[] {
+  const findings: RegistryFinding[] = [];
+  const rank = (effort: ReasoningEffort) => EFFORT_LADDER.indexOf(effort);
+
+  for (const [key, config] of Object.entries(models)) {
+    const { capabilities } = config;
+    const report = (rule: RegistryRule, field: string, message: string) =>
+      findings.push({ model: key, rule, field, message });
+
+    if (config.name !== key) {
+      report('name-matches-key', 'name', `name is ${config.name}, registered as ${key}`);
+    }
+
+    const { reasoningEffort, maxReasoningEffort, supportedReasoningEfforts } = capabilities;
+    if (supportedReasoningEfforts && !supportedReasoningEfforts.includes(reasoningEffort)) {
+      report(
+        'default-effort-supported',
+        'capabilities.reasoningEffort',
+        `default effort ${reasoningEffort} is not in supportedReasoningEfforts (${supportedReasoningEfforts.join(', ')})`,
+      );
+    }
+    if (maxReasoningEffort !== undefined && rank(maxReasoningEffort) < rank(reasoningEffort)) {
+      report(
+        'max-effort-at-least-default',
+        'capabilities.maxReasoningEffort',
+        `max effort ${maxReasoningEffort} is below the default ${reasoningEffort}`,
+      );
+    }
+
+    if (
+      capabilities.supportsDynamicFilteringWebSearch &&
+      !capabilities.supportsNativeCodeExecution
+    ) {
+      report(
+        'dynamic-filtering-needs-code-execution',
+        'capabilities.supportsDynamicFilteringWebSearch',
+        'dynamic filtering web search requires native code execution',
+      );
+    }
+
+    if (config.retired && !config.deprecated) {
+      report('retired-is-deprecated', 'deprecated', 'retired models must also be deprecated');
+    }
+
+    for (const field of ['supersededBy', 'successorOf', 'variantOf'] as const) {
+      const target = config[field];
+      if (target !== undefined && !(target in models)) {
+        report('reference-exists', field, `${field} names unknown model ${target}`);
+      }
+    }
+  }
+  return findings;
+}
+
+// ============================================================================
+// Custom Registries
+// ============================================================================
+
+/** Helpers available as methods on every `createRegistry()` instance. */
+const REGISTRY_HELPERS = {
+  lookup,
+  resolve,
+  resolution,
+  search,
+  exists,
+  from,
+  where,
+  supporting,
+  withContext,
+  directAccess,
+  openRouterOnly,
+  platforms,
+  availableOn,
+  isRetired,
+  isDeprecated,
+  retired,
+  active,
+  upcomingRetirements,
+  latest,
+  successor,
+  upgradePath,
+  variants,
+  toggleThinking,
+  endpointFor,
+  copilotModel,
+  reconcileCopilotModels,
+  effortsFor,
+  normalizeEffort,
+  requestParams,
+  rates,
+  tiers,
+  mediaTokens,
+  cost,
+  costBreakdown,
+  maxCost,
+  reasoningOverhead,
+  compareCosts,
+  estimateTokens,
+  costForText,
+  cheapest,
+  smartpick,
+  ranked,
+  hint,
+  insights,
+  validateRegistry,
+};
+
+/**
+ * Changes applied by `Registry.override()`. Capabilities are merged with the
+ * existing ones, so only the flags that differ need to be listed.
+ */
+export type ModelOverride = Partial<Omit<ModelConfig, 'name' | 'capabilities'>> & {
+  capabilities?: Partial<ModelCapabilities>;
+};
+
+/**
+ * A model registry instance with its own models. Every lookup, filtering,
+ * cost and selection helper is available as a method reading this instance.
+ */
+export type Registry = typeof REGISTRY_HELPERS & {
+  /** Models in this registry, keyed by registry name */
+  readonly configs: Readonly<Record<string, ModelConfig>>;
+  /** Add a model; throws if the name is already registered or the model is invalid */
+  register(config: ModelConfig): ModelConfig;
+  /** Remove a model; returns whether it was registered */
+  unregister(name: string): boolean;
+  /** Replace fields of a registered model and return the updated entry; throws if invalid */
+  override(name: string, changes: ModelOverride): ModelConfig;
+};
+
+/** Fields every registered model must carry, with their runtime type. */
+const REQUIRED_FIELDS = {
+  name: 'string',
+  label: 'string',
+  fullName: 'string',
+  shortName: 'string',
+  provider: 'string',
+  maxOutputTokens: 'number',
+  contextWindow: 'number',
+  inputPrice: 'number',
+  outputPrice: 'number',
+  capabilities: 'object',
+  openRouterOnly: 'boolean',
+} as const satisfies Partial<Record<keyof ModelConfig, string>>;
+
+/**
+ * Check a model about to enter a registry: the required fields and provider
+ * of `ModelConfigSchema`, then the `validateRegistry()` rules against the
+ * table it joins. Throws with every problem found.
+ */
+function checkModel(configs: Record<string, ModelConfig>, config: ModelConfig): void {
+  const problems: string[] = [];
+  for (const [field, type] of Object.entries(REQUIRED_FIELDS)) {
+    const value: unknown = config[field as keyof typeof REQUIRED_FIELDS];
+    if (typeof value !== type || value === null) problems.push(`${field} must be a ${type}`);
+  }
+  if (!Object.values(ModelProvider).includes(config.provider)) {
+    problems.push(`provider ${config.provider} is not a ModelProvider`);
+  }
+  if (problems.length === 0) {
+    const table = { ...configs, [config.name]: config };
+    for (const finding of validateRegistry(table)) {
+      if (finding.model === config.name) problems.push(finding.message);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid model ${config.name}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Create a registry that can be extended at runtime, for in-house
+ * fine-tunes or self-hosted models. It starts from a copy of the built-in
+ * models (or the models given), so changes never affect the module-level
+ * helpers or other instances. Each method is bound to the instance, and
+ * models added through `register()` or `override()` are validated first.
+ *
+ * @example
+ * ```typescript
+ * const registry = createRegistry();
+ * registry.register({
+ *   name: 'acmeLlama',
+ *   label: 'Acme Llama FT',
+ *   fullName: 'acme/llama-ft-v2',
+ *   shortName: 'llama-ft-v2',
+ *   provider: ModelProvider.OTHERS,
+ *   maxOutputTokens: 8192,
+ *   contextWindow: 131072,
+ *   inputPrice: 0,
+ *   outputPrice: 0,
+ *   capabilities: DEFAULT_MODEL_CAPABILITIES,
+ *   openRouterOnly: false,
+ *   baseUrl: 'http://vllm.internal:8000/v1',
+ * });
+ * registry.override('sonnet46', { inputPrice: 2.7, outputPrice: 13.5 }); // negotiated rate
+ *
+ * registry.cheapest({ supportsFunctionCalling: true }); // → acmeLlama
+ * ```
+ */
+export function createRegistry(models: Record<string, ModelConfig> = MODEL_CONFIGS): Registry {
+  const state = new RegistryState({ ...models });
+  const methods = Object.fromEntries(
+    Object.entries(REGISTRY_HELPERS).map(([key, helper]) => [key, helper.bind(state)]),
+  ) as typeof REGISTRY_HELPERS;
+
+  return {
+    ...methods,
+    get configs() {
+      return state.configs;
+    },
+    register(config) {
+      if (config.name in state.configs) {
+        throw new Error(`Model already registered: ${config.name}`);
+      }
+      checkModel(state.configs, config);
+      state.configs[config.name] = config;
+      delete state.identifierIndex;
+      return config;
+    },
+    unregister(name) {
+      if (!(name in state.configs)) return false;
+      delete state.configs[name];
+      delete state.identifierIndex;
+      return true;
+    },
+    override(name, changes) {
+      const current = configOf(state, name);
+      const updated: ModelConfig = {
+        ...current,
+        ...changes,
+        name: current.name,
+        capabilities: { ...current.capabilities, ...changes.capabilities },
+      };
+      checkModel(state.configs, updated);
+      state.configs[name] = updated;
+      delete state.identifierIndex;
+      return updated;
+    },
+  };
+}
+
 // ============================================================================
 // Legacy Aliases (backward compatibility)
 // ============================================================================
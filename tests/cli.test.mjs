@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import test from 'node:test';
+
+import { cost as priced, isRetired, rates } from '../dist/index.js';
+
+const cli = (...args) =>
+  spawnSync(process.execPath, ['dist/cli.js', ...args], { encoding: 'utf8' });
+
+test('cli prints show, cost and compare results as table, JSON and CSV', () => {
+  const show = cli('show', 'claude-sonnet-4-6', '--format', 'json');
+  assert.equal(show.status, 0);
+  assert.equal(JSON.parse(show.stdout).name, 'sonnet46T');
+  assert.match(cli('show', 'sonnet46').stdout, /^capabilities\.supportsVision\s+true$/m);
+
+  const cost = JSON.parse(
+    cli('cost', 'gpt56', '--input', '10000', '--output', '2000', '--cached', '8000', '-f', 'json')
+      .stdout,
+  );
+  // gpt56 is on promotional pricing for part of the year: compare with today's library price
+  const total = priced('gpt56', { input: 10000, output: 2000, cached: 8000 });
+  assert.deepEqual([cost.model, cost.total], ['gpt56', Math.round(total * 1e6) / 1e6]);
+
+  const compare = cli('compare', 'sonnet46', 'gpt56', '--input', '1000000', '--format', 'csv');
+  const gpt56 = priced('gpt56', { input: 1000000, output: 0 });
+  assert.equal(
+    compare.stdout,
+    `model,provider,cost\nsonnet46,anthropic,3\ngpt56,openai,${gpt56}\n`,
+  );
+
+  const batch = cli(
+    'compare',
+    'glm47flash',
+    'sonnet46',
+    '--input',
+    '1000000',
+    '--batch',
+    '-f',
+    'csv',
+  );
+  assert.equal(batch.status, 0);
+  assert.equal(batch.stdout, 'model,provider,cost\nsonnet46,anthropic,1.5\n');
+  assert.match(batch.stderr, /skipped glm47flash, which has no batch pricing/);
+});
+
+test('cli filters models with list and cheapest', () => {
+  const list = JSON.parse(cli('list', '--provider', 'anthropic', '--active', '-f', 'json').stdout);
+  assert.ok(list.length > 0);
+  assert.ok(list.every((m) => m.provider === 'anthropic' && m.status !== 'retired'));
+
+  // Prices are the effective rates cheapest ranks by; status follows the lifecycle dates
+  const openai = JSON.parse(cli('list', '--provider', 'openai', '-f', 'json').stdout);
+  const gpt56 = openai.find((m) => m.name === 'gpt56');
+  assert.deepEqual([gpt56.inputPrice, gpt56.outputPrice], Object.values(rates('gpt56')));
+  for (const m of openai) assert.equal(m.status === 'retired', isRetired(m.name), m.name);
+
+  const best = JSON.parse(
+    cli('cheapest', '--reasoning', '--min-context', '200000', '--provider', 'openai', '-f', 'json')
+      .stdout,
+  );
+  assert.equal(best.provider, 'openai');
+  assert.ok(best.contextWindow >= 200000);
+  assert.deepEqual([best.inputPrice, best.outputPrice], Object.values(rates(best.name)));
+});
+
+test('cli reports errors on stderr with a non-zero exit code', () => {
+  const unknown = cli('show', 'sonet46');
+  assert.equal(unknown.status, 1);
+  assert.match(unknown.stderr, /^llm-zoo: Unknown model: sonet46\. Did you mean sonnet46/);
+  assert.match(cli('cost', 'gpt56', '--input', 'lots').stderr, /--input must be a non-negative/);
+  assert.match(
+    cli('show', 'gpt56', '--format', 'xml').stderr,
+    /--format must be table, json or csv/,
+  );
+  assert.equal(cli('--help').status, 0);
+  assert.equal(cli().status, 1);
+});
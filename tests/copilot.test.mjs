@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  COPILOT_MODEL_IDS,
+  COPILOT_MODEL_ID_MAP,
+  COPILOT_MODEL_NAMES,
+  COPILOT_MODEL_NAME_MAP,
+  copilotModel,
+  createRegistry,
+  lookup,
+  reconcileCopilotModels,
+} from '../dist/index.js';
+
+test('every documented Copilot name and id maps to a registry model or undefined', () => {
+  assert.deepEqual(Object.keys(COPILOT_MODEL_NAME_MAP), [...COPILOT_MODEL_NAMES]);
+  assert.deepEqual(Object.keys(COPILOT_MODEL_ID_MAP).sort(), [...COPILOT_MODEL_IDS].sort());
+
+  for (const key of [
+    ...Object.values(COPILOT_MODEL_NAME_MAP),
+    ...Object.values(COPILOT_MODEL_ID_MAP),
+  ]) {
+    if (key !== undefined) assert.ok(lookup(key), key);
+  }
+  for (const [id, key] of Object.entries(COPILOT_MODEL_ID_MAP)) {
+    if (key !== undefined) assert.equal(lookup(key).copilotFullName, id);
+  }
+
+  assert.equal(copilotModel('Claude Sonnet 5')?.name, 'sonnet5');
+  assert.equal(copilotModel('GPT-5.6 Luna')?.name, 'gpt56--');
+  assert.equal(copilotModel('gpt-5.3-codex')?.name, 'gpt53codex');
+  assert.equal(copilotModel('Raptor mini'), undefined);
+  assert.equal(copilotModel('toString'), undefined);
+});
+
+test('reconcileCopilotModels intersects the catalog with an account model list', () => {
+  const { matched, unknown, missing } = reconcileCopilotModels([
+    { id: 'claude-sonnet-4.6', name: 'Claude Sonnet 4.6' },
+    { id: 'gpt-5.6-luna', name: 'GPT-5.6 Luna' },
+    { id: 'kimi-k2.7-code-preview', name: 'Kimi-K2.7-Code' },
+    { id: 'raptor-mini', name: 'Raptor mini' },
+    'mai-code-1-flash',
+  ]);
+
+  assert.deepEqual(
+    matched.map((m) => [m.id, m.model.name]),
+    [
+      ['claude-sonnet-4.6', 'sonnet46'],
+      ['gpt-5.6-luna', 'gpt56--'],
+      ['kimi-k2.7-code-preview', 'kimi27code'],
+    ],
+  );
+  assert.equal(matched[0].capabilities, lookup('sonnet46').capabilities);
+  assert.deepEqual(unknown, [
+    { id: 'raptor-mini', name: 'Raptor mini' },
+    { id: 'mai-code-1-flash' },
+  ]);
+
+  const missingNames = missing.map((m) => m.name);
+  assert.ok(missingNames.includes('Claude Sonnet 5'));
+  assert.ok(!missingNames.includes('Claude Sonnet 4.6'));
+  assert.ok(!missingNames.includes('Raptor mini'));
+  assert.equal(missingNames.filter((n) => n.startsWith('Claude Opus 4.8')).length, 1);
+  assert.equal(missing.find((m) => m.name === 'Claude Sonnet 5').capabilities.supportsVision, true);
+
+  const registry = createRegistry();
+  registry.unregister('gemini35f');
+  assert.equal(registry.reconcileCopilotModels(['gemini-3.5-flash']).unknown.length, 1);
+});
+
+test('reconcileCopilotModels prefers Copilot-served entries over resolve()', () => {
+  const { matched, unknown } = reconcileCopilotModels([{ id: 'gpt-4o', name: 'GPT-4o' }]);
+  assert.deepEqual(
+    matched.map((m) => [m.id, m.model.name]),
+    [['gpt-4o', 'copilot4o']],
+  );
+  assert.deepEqual(unknown, []);
+});
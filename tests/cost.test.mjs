@@ -0,0 +1,240 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  DEFAULT_REASONING_OVERHEAD,
+  MODEL_CONFIGS,
+  ReasoningEffort,
+  cheapest,
+  compareCosts,
+  cost,
+  costBreakdown,
+  costForText,
+  createRegistry,
+  estimateTokens,
+  lookup,
+  maxCost,
+  mediaTokens,
+  rates,
+  reasoningOverhead,
+  tiers,
+} from '../dist/index.js';
+
+const close = (actual, expected, message) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${message}: expected ${expected}, got ${actual}`);
+
+test('long-context tiers apply only above their threshold', () => {
+  assert.deepEqual(rates('gemini25p', { input: 200000 }), { inputPrice: 1.25, outputPrice: 10 });
+  assert.deepEqual(rates('gemini25p', { input: 200001 }), { inputPrice: 2.5, outputPrice: 15 });
+  assert.deepEqual(rates('grok46'), { inputPrice: 2, outputPrice: 6 });
+
+  close(cost('gemini31p', { input: 100000, output: 10000 }), 0.2 + 0.12, 'short Gemini 3.1 Pro prompt');
+  close(cost('gemini31p', { input: 300000, output: 10000 }), 1.2 + 0.18, 'long Gemini 3.1 Pro prompt');
+  close(cost('grok46', { input: 250000, output: 1000, cached: 50000 }), 0.8 + 0.2 + 0.012, 'long Grok 4.6 prompt');
+});
+
+test('maxCost and compareCosts use the tier selected by the prompt', () => {
+  const gemini = lookup('gemini25p');
+  close(maxCost(gemini, 400000), 1.0 + (gemini.maxOutputTokens / 1_000_000) * 15, 'Gemini 2.5 Pro worst case');
+
+  const [first, second] = compareCosts(['gemini25p', 'gpt41'], { input: 400000, output: 1000 });
+  assert.equal(first.model.name, 'gpt41');
+  close(second.cost, 1.0 + 0.015, 'tiered comparison cost');
+});
+
+test('cache writes are billed at the TTL premium and Gemini caches add storage', () => {
+  // Sonnet 4.6: $3 input, 10% reads, 1.25x 5-minute writes, 2x 1-hour writes.
+  const usage = { input: 100000, output: 1000, cached: 60000, cacheWrite: 30000 };
+  close(cost('sonnet46', usage), 0.03 + 0.018 + 0.1125 + 0.015, '5-minute cache write');
+  close(cost('sonnet46', { ...usage, cacheTtl: '1h' }), 0.03 + 0.018 + 0.18 + 0.015, '1-hour cache write');
+
+  // Gemini 2.5 Pro: writes at the input price plus $4.50 per 1M tokens per hour.
+  close(
+    cost('gemini25p', { input: 100000, output: 0, cacheWrite: 100000, cacheStorageHours: 2 }),
+    0.125 + 0.9,
+    'Gemini cache storage',
+  );
+  // Without a TTL, Gemini storage lasts its one-hour default rather than five minutes
+  close(cost('gemini25p', { input: 100000, output: 0, cacheWrite: 100000 }), 0.125 + 0.45, 'Gemini default TTL');
+  close(
+    cost('gemini25p', { input: 100000, output: 0, cacheWrite: 100000, cacheTtl: '5m' }),
+    0.125 + 0.45 / 12,
+    'Gemini 5-minute TTL',
+  );
+
+  // Models without write pricing bill writes as plain input.
+  close(cost('gpt41', { input: 10000, output: 0, cacheWrite: 10000 }), 0.02, 'OpenAI cache write');
+});
+
+test('costBreakdown rejects usage parts larger than their totals', () => {
+  assert.throws(
+    () => costBreakdown('sonnet46', { input: 10000, output: 0, cached: 8000, cacheWrite: 4000 }),
+    (error) => error instanceof RangeError && /exceed input tokens \(10000\)/.test(error.message),
+  );
+  assert.throws(
+    () => cost('opus5T', { input: 1000, output: 2000, reasoning: 3000 }),
+    (error) => error instanceof RangeError && /Reasoning tokens \(3000\) exceed output/.test(error.message),
+  );
+  assert.equal(costBreakdown('sonnet46', { input: 10000, output: 0, cached: 10000 }).input, 0);
+});
+
+test('price schedules resolve the rates in effect on a date', () => {
+  const intro = new Date('2026-08-31T23:00:00Z');
+  const standard = new Date('2026-09-01T00:00:00Z');
+
+  assert.equal(rates('sonnet5', { at: intro }).inputPrice, 2);
+  assert.equal(rates('sonnet5', { at: standard }).inputPrice, 3);
+  assert.equal(lookup('sonnet5'), MODEL_CONFIGS.sonnet5);
+  assert.equal(lookup('sonnet5').inputPrice, 3);
+  assert.deepEqual(
+    [lookup('sonnet5', { at: intro }).inputPrice, lookup('sonnet5', { at: intro }).outputPrice],
+    [2, 10],
+  );
+  assert.equal(lookup('sonnet5', { at: intro }).priceSchedule, undefined);
+  assert.equal(lookup('sonnet5', { at: standard }), MODEL_CONFIGS.sonnet5);
+
+  close(cost('sonnet5T', { input: 1_000_000, output: 0 }, { at: intro }), 2, 'introductory Sonnet 5');
+  close(cost('sonnet5T', { input: 1_000_000, output: 0 }, { at: standard }), 3, 'standard Sonnet 5');
+
+  assert.deepEqual(rates('gpt56-', { at: new Date('2026-07-29') }), { inputPrice: 2.5, outputPrice: 15 });
+  assert.deepEqual(rates('gpt56-', { at: new Date('2026-07-30') }), { inputPrice: 2, outputPrice: 12 });
+  // The GPT-5.6 Sol promotion runs through its last confirmed day
+  assert.deepEqual(rates('gpt56fast', { at: new Date('2026-11-21') }), { inputPrice: 8, outputPrice: 40 });
+  assert.deepEqual(rates('gpt56', { at: new Date('2026-11-22') }), { inputPrice: 5, outputPrice: 30 });
+
+  // Long-context tiers still apply inside a window that does not replace them
+  const registry = createRegistry();
+  registry.override('gemini25p', { priceSchedule: [{ until: '2026-08-31', inputPrice: 1, outputPrice: 8 }] });
+  assert.deepEqual(registry.rates('gemini25p', { input: 300000, at: intro }), rates('gemini25p', { input: 300000 }));
+  assert.deepEqual(registry.rates('gemini25p', { at: intro }), { inputPrice: 1, outputPrice: 8 });
+});
+
+test('batch mode applies the batch discount and excludes models without a batch API', () => {
+  const usage = { input: 100000, output: 10000 };
+  close(cost('sonnet46', usage, { mode: 'batch' }), cost('sonnet46', usage) / 2, 'Sonnet 4.6 batch');
+
+  assert.throws(() => cost('deepseek', usage, { mode: 'batch' }), /no batch pricing/);
+  assert.throws(() => rates('gpt56fast', { mode: 'batch' }), /no batch pricing/);
+
+  const pick = cheapest({ supportsVision: true }, { mode: 'batch' });
+  assert.ok(pick.batchDiscountFactor, `${pick.name} has a batch endpoint`);
+
+  // Mixed lists leave out the models without a Batch API instead of throwing
+  const mixed = compareCosts(['glm47flash', 'sonnet46', 'deepseek'], usage, { mode: 'batch' });
+  assert.deepEqual(mixed.map((c) => c.model.name), ['sonnet46']);
+  close(mixed[0].cost, cost('sonnet46', usage, { mode: 'batch' }), 'batch comparison');
+  assert.equal(compareCosts(['glm47flash', 'sonnet46'], usage).length, 2);
+});
+
+test('costBreakdown splits reasoning from visible output and sums to cost()', () => {
+  const usage = { input: 20000, output: 12000, reasoning: 9000, cached: 10000 };
+  const bill = costBreakdown('opus5T', usage);
+
+  close(bill.input, 0.05, 'uncached input');
+  close(bill.cached, 0.005, 'cache reads');
+  close(bill.output, 0.075, 'visible output');
+  close(bill.reasoning, 0.225, 'reasoning');
+  close(bill.total, cost('opus5T', usage), 'total');
+  close(cost('opus5T', usage), cost('opus5T', { ...usage, reasoning: 0 }), 'reasoning is part of output');
+});
+
+test('maxCost budgets reasoning overhead for an expected answer length', () => {
+  assert.equal(reasoningOverhead('opus5'), 1);
+  assert.equal(reasoningOverhead('opus5T'), DEFAULT_REASONING_OVERHEAD.high);
+  assert.equal(reasoningOverhead('opus5T', ReasoningEffort.MAX), DEFAULT_REASONING_OVERHEAD.max);
+  assert.equal(reasoningOverhead('dsr1'), DEFAULT_REASONING_OVERHEAD.medium);
+  assert.equal(reasoningOverhead('o3'), DEFAULT_REASONING_OVERHEAD.high);
+
+  close(
+    maxCost('opus5T', 50000, { output: 2000 }),
+    cost('opus5T', { input: 50000, output: 10000 }),
+    'high effort',
+  );
+  close(
+    maxCost('opus5T', 50000, { output: 100000, effort: ReasoningEffort.MAX }),
+    maxCost('opus5T', 50000),
+    'capped at max output tokens',
+  );
+});
+
+test('native tool usage is billed from the model tool pricing', () => {
+  const tokens = { input: 40000, output: 3000 };
+  const bill = costBreakdown('sonnet46', { ...tokens, tools: { webSearches: 12, codeExecSeconds: 300 } });
+  close(bill.tools, 0.12 + 0.05 / 12, 'Claude web search and container time');
+  close(bill.total, cost('sonnet46', tokens) + bill.tools, 'tools on top of tokens');
+
+  close(costBreakdown('gpt41', { ...tokens, tools: { webSearches: 4, codeExecSeconds: 90 } }).tools, 0.1 + 0.03, 'GPT-4.1');
+  close(costBreakdown('o3-deep-research', { ...tokens, tools: { webSearches: 50, mcpCalls: 3 } }).tools, 0.5, 'deep research');
+
+  assert.throws(() => cost('opus5', { ...tokens, tools: { mcpCalls: 1 } }), /does not support native MCP/);
+  assert.throws(() => cost('musespark11', { ...tokens, tools: { webSearches: 1 } }), /no native web search pricing/);
+});
+
+test('media input converts to tokens with each model modality rules', () => {
+  assert.equal(mediaTokens('sonnet5', { images: [{ width: 1000, height: 1000 }] }).images, 1334);
+  assert.equal(mediaTokens('sonnet5', { images: [{ width: 4000, height: 4000 }] }).images, 1600);
+  // 1920x1080 → 1365x768 → 3x2 tiles of 512px
+  assert.equal(mediaTokens('gpt41', { images: [{ width: 1920, height: 1080 }] }).images, 85 + 6 * 170);
+  assert.equal(mediaTokens('gemini25f', { images: [{ width: 300, height: 300 }] }).images, 258);
+  assert.equal(mediaTokens('gemini37f', { pdfPages: 300 }).total, 168000);
+  assert.equal(mediaTokens('sonnet5', { pdfPages: 300 }).total, 900000);
+
+  const text = { input: 500, output: 4000 };
+  const audio = costBreakdown('gemini25f', { ...text, media: { audioSeconds: 600 } });
+  close(audio.media, (19200 / 1_000_000) * 1.0, 'Gemini 2.5 Flash audio rate');
+  close(audio.total, cost('gemini25f', text) + audio.media, 'media on top of text');
+
+  // 400 pages push Gemini 3.1 Pro over its 200K long-context threshold
+  const pdf = costBreakdown('gemini31p', { ...text, media: { pdfPages: 400 } });
+  close(pdf.media, (224000 / 1_000_000) * 4.0, 'long-context media rate');
+
+  // Free models price media and text at zero rather than NaN
+  for (const name of ['glm47flash', 'kimiCoding', 'copilot4o']) {
+    assert.equal(cost(name, text), 0, name);
+    assert.equal(costForText(name, 'hello', 10), 0, name);
+  }
+
+  assert.throws(() => mediaTokens('o3-', { images: [{ width: 10, height: 10 }] }), /does not support image input/);
+  assert.throws(() => mediaTokens('gpt41', { pdfPages: 1 }), /no PDF input pricing/);
+});
+
+test('service tiers scale standard rates or use the linked tier entry', () => {
+  const tokens = { input: 10000, output: 2000 };
+  close(cost('gpt54', tokens, { serviceTier: 'flex' }), cost('gpt54', tokens) / 2, 'flex');
+  close(cost('gpt54', tokens, { serviceTier: 'fast' }), cost('gpt54', tokens) * 2, 'fast');
+  close(cost('gpt54', tokens, { serviceTier: 'standard' }), cost('gpt54', tokens), 'standard');
+
+  const at = new Date('2026-12-01');
+  close(cost('gpt56', tokens, { serviceTier: 'fast', at }), cost('gpt56fast', tokens, { at }), 'linked fast entry');
+  close(cost('gpt56fast', tokens, { serviceTier: 'flex', at }), cost('gpt56', tokens, { at }) / 2, 'flex from fast entry');
+  assert.equal(tiers('gpt56').find((t) => t.tier === 'fast').model, 'gpt56fast');
+
+  assert.deepEqual(tiers('sonnet46').map((t) => t.tier), ['standard']);
+  assert.throws(() => cost('sonnet46', tokens, { serviceTier: 'flex' }), /no flex service tier/);
+});
+
+test('estimateTokens applies the provider tokenizer heuristic offline', () => {
+  const prose = 'The quick brown fox jumps over the lazy dog. '.repeat(100);
+  assert.equal(estimateTokens('gpt56', prose), Math.ceil(prose.length / 4));
+  assert.equal(estimateTokens('sonnet46', prose), Math.ceil(prose.length / 3.5));
+  assert.equal(estimateTokens('deepseek', '你好世界'), Math.ceil(4 * 0.6));
+  assert.equal(estimateTokens('gpt56', ''), 0);
+
+  const messages = [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: prose },
+  ];
+  assert.ok(estimateTokens('gpt56', messages) > estimateTokens('gpt56', prose));
+
+  const input = estimateTokens('sonnet46', prose);
+  close(
+    costForText('sonnet46', prose, 500),
+    cost('sonnet46', { input, output: 500 }),
+    'costForText with an output token count',
+  );
+  close(
+    costForText('sonnet46', prose, prose, { mode: 'batch' }),
+    cost('sonnet46', { input, output: input }, { mode: 'batch' }),
+    'costForText with a sample answer',
+  );
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+import test from 'node:test';
+
+import { MODEL_CONFIGS, ModelProvider, ReasoningEffort } from '../dist/index.js';
+
+// Resolve through the package's own subpath exports, as consumers do
+const require = createRequire(import.meta.url);
+const registry = require('llm-zoo/registry.json');
+const schema = require('llm-zoo/registry.schema.json');
+const openapi = require('llm-zoo/openapi.json');
+
+test('registry.json is a snapshot of MODEL_CONFIGS', () => {
+  assert.deepEqual(registry, JSON.parse(JSON.stringify(MODEL_CONFIGS)));
+});
+
+test('registry.schema.json describes the registry with named definitions', () => {
+  assert.equal(schema.$schema, 'https://json-schema.org/draft/2020-12/schema');
+  assert.deepEqual(schema.additionalProperties, { $ref: '#/$defs/ModelConfig' });
+
+  const { ModelConfig, ModelCapabilities } = schema.$defs;
+  assert.deepEqual(ModelConfig.properties.capabilities, { $ref: '#/$defs/ModelCapabilities' });
+  assert.ok(ModelConfig.required.includes('label'));
+  assert.ok(!('description' in ModelConfig.properties));
+  assert.ok(ModelCapabilities.required.includes('supportsAdaptiveThinking'));
+  assert.deepEqual(schema.$defs.ModelProvider.enum, Object.values(ModelProvider));
+  assert.deepEqual(schema.$defs.ReasoningEffort.enum, Object.values(ReasoningEffort));
+
+  // Every built-in model carries exactly the required fields the schema lists
+  for (const model of Object.values(registry)) {
+    for (const field of ModelConfig.required) assert.ok(field in model, `${model.name}.${field}`);
+    for (const field of Object.keys(model)) assert.ok(field in ModelConfig.properties, field);
+  }
+});
+
+test('openapi.json exposes the same definitions as OpenAPI 3.0 components', () => {
+  assert.equal(openapi.openapi, '3.0.3');
+  assert.equal(openapi.info.version, require('../package.json').version);
+
+  const { schemas } = openapi.components;
+  assert.deepEqual(Object.keys(schemas).sort(), Object.keys(schema.$defs).sort());
+  assert.deepEqual(schemas.ModelConfig.properties.capabilities, {
+    $ref: '#/components/schemas/ModelCapabilities',
+  });
+  assert.ok(Object.values(schemas).every((s) => !('$id' in s)));
+});
@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  MODEL_CONFIGS,
+  active,
+  cost,
+  createRegistry,
+  isDeprecated,
+  isRetired,
+  latest,
+  resolution,
+  resolve,
+  search,
+  retired,
+  successor,
+  toggleThinking,
+  upcomingRetirements,
+  upgradePath,
+  variants,
+} from '../dist/index.js';
+
+test('resolve matches every identifier field', () => {
+  assert.equal(resolve('sonnet45')?.name, 'sonnet45');
+  assert.equal(resolve('claude-sonnet-4-5')?.name, 'sonnet45T');
+  assert.equal(resolve('gpt-5.4')?.name, 'gpt54');
+  assert.equal(resolve('anthropic/claude-sonnet-4.5')?.name, 'sonnet45');
+  assert.equal(resolve('claude-sonnet-4.6')?.name, 'sonnet46');
+  assert.equal(resolve('no-such-model'), undefined);
+
+  assert.equal(resolution('gpt-5.4')?.field, 'shortName');
+  assert.equal(resolution('anthropic/claude-sonnet-4.5')?.field, 'openrouterFullName');
+});
+
+test('resolution ranks entries sharing an identifier and explains the choice', () => {
+  const shared = resolution('deepseek-v4-flash');
+  assert.equal(shared.model.name, 'deepseek');
+  assert.deepEqual(shared.candidates.map((c) => c.model.name), ['deepseek', 'deepseekT']);
+  assert.match(shared.reason, /chose deepseek over deepseekT: registered first with this fullName/);
+
+  const sol = resolution('gpt-5.6-sol');
+  assert.equal(sol.model.name, 'gpt56');
+  assert.deepEqual(sol.candidates.map((c) => c.model.name).sort(), ['gpt56', 'gpt56fast', 'gpt56pro']);
+
+  const openrouter = resolution('anthropic/claude-sonnet-4.6');
+  assert.equal(openrouter.model.name, 'sonnet46');
+  assert.match(openrouter.reason, /chose sonnet46 over sonnet46T: non-thinking variant/);
+});
+
+test('API ids resolve to the first registered entry, as before alias matching', () => {
+  const twins = {
+    'claude-opus-5': 'opus5T',
+    'claude-opus-4-8': 'opus48T',
+    'claude-opus-4-7': 'opus47T',
+    'claude-opus-4-6': 'opus46T',
+    'claude-sonnet-5': 'sonnet5T',
+    'claude-sonnet-4-6': 'sonnet46T',
+    'claude-opus-4-5': 'opus45T',
+    'claude-opus-4-1-20250805': 'opus41T',
+    'claude-opus-4-20250514': 'opus4T',
+    'claude-sonnet-4-5': 'sonnet45T',
+    'claude-haiku-4-5-20251001': 'haiku45T',
+    'claude-sonnet-4-20250514': 'sonnet4T',
+    'claude-3-7-sonnet-20250219': 'sonnet37T',
+  };
+  for (const [fullName, name] of Object.entries(twins)) {
+    assert.equal(resolve(fullName)?.name, name, fullName);
+  }
+
+  for (const model of Object.values(MODEL_CONFIGS)) {
+    const first = Object.values(MODEL_CONFIGS).find((m) => m.fullName === model.fullName);
+    assert.equal(resolve(model.fullName), first, model.fullName);
+  }
+});
+
+test('search ranks fuzzy matches and unknown models suggest them', () => {
+  assert.equal(search('sonnet-4.5')[0].model.name, 'sonnet45');
+  assert.equal(search('opus 4.8')[0].model.name, 'opus48');
+  assert.equal(search('gpt5.4')[0].model.name, 'gpt54');
+  assert.equal(search('gemni 3.7 flash')[0].model.name, 'gemini37f');
+  assert.deepEqual(search('xyzzy'), []);
+
+  assert.throws(
+    () => cost('opus 4.8', { input: 1000, output: 100 }),
+    /Unknown model: opus 4\.8\. Did you mean opus48, /,
+  );
+  assert.throws(() => cost('xyzzy', { input: 1000, output: 100 }), /^Error: Unknown model: xyzzy$/);
+});
+
+test('lineage links form consistent succession chains', () => {
+  assert.equal(successor('glm52')?.name, 'glm53');
+  assert.equal(successor('o3')?.name, 'gpt5');
+  assert.equal(successor('gpt56'), undefined);
+  assert.deepEqual(upgradePath('opus46').map((m) => m.name), ['opus47', 'opus48', 'opus5']);
+  assert.deepEqual(upgradePath('opus46T').map((m) => m.name), ['opus47T', 'opus48T', 'opus5T']);
+  assert.equal(upgradePath('o3').at(-1)?.name, 'gpt56');
+
+  assert.equal(latest('claude-opus')?.name, 'opus5');
+  assert.equal(latest('gemini-flash')?.name, 'gemini37f');
+  assert.equal(latest('kimi')?.name, 'kimi3');
+  assert.equal(latest('no-such-family'), undefined);
+
+  for (const model of Object.values(MODEL_CONFIGS)) {
+    if (model.supersededBy) {
+      assert.ok(MODEL_CONFIGS[model.supersededBy], `${model.name} supersededBy exists`);
+    }
+    if (model.successorOf) {
+      const predecessor = MODEL_CONFIGS[model.successorOf];
+      assert.equal(predecessor?.supersededBy, model.name, `${model.name} successorOf is mutual`);
+    }
+  }
+});
+
+test('lifecycle dates answer retirement questions at any point in time', () => {
+  const names = (models) => models.map((m) => m.name);
+  const at = new Date('2025-10-01T12:00:00Z');
+
+  assert.ok(names(active({ at })).includes('sonnet35'));
+  assert.ok(!names(active({ at })).includes('gpt45'));
+  assert.ok(!names(active({ at })).includes('opus45'), 'not released yet');
+  assert.ok(names(retired({ at })).includes('sonnet3'));
+  assert.ok(!names(retired({ at })).includes('opus3'));
+  assert.ok(names(retired()).includes('opus3'));
+
+  assert.deepEqual(names(upcomingRetirements(30, { at })), ['sonnet36', 'sonnet35']);
+  assert.deepEqual(names(upcomingRetirements(120, { at }).slice(2)), ['deepseekT+', 'opus3']);
+  assert.deepEqual(upcomingRetirements(30, { at: new Date('2025-10-22T00:00:00Z') }), []);
+
+  assert.equal(isRetired('sonnet35'), true);
+  assert.equal(isRetired('sonnet35', { at }), false);
+  assert.equal(isDeprecated('sonnet45'), Boolean(MODEL_CONFIGS.sonnet45.deprecated));
+  assert.equal(isDeprecated('sonnet3', { at }), true, 'retired models are deprecated');
+
+  // latest() follows the dates like active(), not the current retired flag
+  const { sonnet35, sonnet36, sonnet37 } = MODEL_CONFIGS;
+  const older = createRegistry({ sonnet35, sonnet36, sonnet37 });
+  assert.equal(older.latest('claude-sonnet', { at })?.name, 'sonnet37');
+  assert.equal(older.latest('claude-sonnet', { at: new Date('2025-01-01T00:00:00Z') })?.name, 'sonnet36');
+  assert.equal(older.latest('claude-sonnet'), undefined);
+
+  for (const model of Object.values(MODEL_CONFIGS)) {
+    for (const date of [model.releaseDate, model.deprecationDate, model.retirementDate]) {
+      if (date !== undefined) assert.match(date, /^\d{4}-\d{2}-\d{2}$/, model.name);
+    }
+  }
+});
+
+test('variants group twin entries and toggleThinking switches between them', () => {
+  const names = (models) => models.map((m) => m.name);
+  assert.deepEqual(names(variants('opus5T')), ['opus5', 'opus5T']);
+  assert.deepEqual(names(variants('gpt56fast')), ['gpt56', 'gpt56pro', 'gpt56fast']);
+  assert.deepEqual(names(variants('fable5')), ['fable5']);
+
+  assert.equal(toggleThinking('opus5')?.name, 'opus5T');
+  assert.equal(toggleThinking('sonnet46T')?.name, 'sonnet46');
+  assert.equal(toggleThinking('deepseek')?.name, 'deepseekT');
+  assert.equal(toggleThinking('kimi26T')?.name, 'kimi26');
+  assert.equal(toggleThinking('gpt56pro'), undefined);
+  assert.equal(toggleThinking('fable5'), undefined);
+
+  for (const model of Object.values(MODEL_CONFIGS)) {
+    if (model.variantOf === undefined) continue;
+    const base = MODEL_CONFIGS[model.variantOf];
+    assert.equal(base?.variantOf, undefined, `${model.name} links to a base entry`);
+    assert.equal(base.provider, model.provider, `${model.name} shares its base provider`);
+  }
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { lookup } from '../dist/index.js';
+import { applyOverlays, parseOverlay } from '../dist/overlays.js';
+
+test('overlays deep-merge patches, honor deletion markers and track provenance', () => {
+  const discounts = parseOverlay(
+    JSON.stringify({
+      models: {
+        sonnet46: { inputPrice: 2.7, capabilities: { supportsNativePdf: false } },
+        sonnet5: { priceSchedule: null },
+        gpt4o: null,
+      },
+    }),
+    'discounts.json',
+  );
+  const context = { source: 'context.yaml', models: { sonnet46: { contextWindow: 500000 } } };
+  const registry = applyOverlays([discounts, context]);
+
+  const sonnet = registry.lookup('sonnet46');
+  assert.equal(sonnet.inputPrice, 2.7);
+  assert.equal(sonnet.outputPrice, lookup('sonnet46').outputPrice);
+  assert.equal(sonnet.contextWindow, 500000);
+  assert.equal(sonnet.capabilities.supportsNativePdf, false);
+  assert.equal(sonnet.capabilities.supportsVision, true);
+  assert.equal(registry.lookup('sonnet5').priceSchedule, undefined);
+  assert.equal(registry.exists('gpt4o'), false);
+
+  assert.equal(registry.provenance('sonnet46', 'inputPrice'), 'discounts.json');
+  assert.equal(registry.provenance('sonnet46', 'contextWindow'), 'context.yaml');
+  assert.equal(registry.provenance('sonnet46', 'outputPrice'), undefined);
+  assert.equal(registry.provenance('gpt4o', 'inputPrice'), 'discounts.json');
+  assert.deepEqual(registry.provenance('sonnet5'), [
+    { path: 'priceSchedule', source: 'discounts.json', deleted: true },
+  ]);
+
+  // Built-in registry untouched
+  assert.equal(lookup('sonnet46').inputPrice, 3);
+});
+
+test('overlays are validated against the model schemas', () => {
+  assert.throws(() => parseOverlay('{"models": []}', 'bad.json'), /Overlay bad\.json/);
+  assert.throws(() => parseOverlay('models: {}', 'team.yaml'), /YAML overlays need a parser/);
+  assert.throws(
+    () => applyOverlays([{ source: 'typo.json', models: { sonnet46: { inputPrice: 'cheap' } } }]),
+    /Overlay typo\.json: model sonnet46/,
+  );
+  assert.throws(
+    () => applyOverlays([{ source: 'new.json', models: { acmeLlama: { inputPrice: 1 } } }]),
+    /Overlay new\.json: model acmeLlama/,
+  );
+});
+
+test('overlays keep the models they add in the shape ModelConfig declares', () => {
+  const { label, ...legacy } = lookup('sonnet46');
+  const { supportsAdaptiveThinking, ...capabilities } = lookup('opus46T').capabilities;
+  const model = { ...legacy, name: 'acmeSonnet', capabilities };
+
+  assert.throws(
+    () => applyOverlays([{ source: 'unlabeled.json', models: { acmeSonnet: model } }]),
+    /Overlay unlabeled\.json: model acmeSonnet[\s\S]*label/,
+  );
+
+  const overlay = { acmeSonnet: { ...model, label: 'Acme Sonnet' } };
+  const added = applyOverlays([{ source: 'acme.json', models: overlay }]).lookup('acmeSonnet');
+  assert.equal(added.label, 'Acme Sonnet');
+  assert.equal(supportsAdaptiveThinking, true);
+  assert.equal(added.capabilities.supportsAdaptiveThinking, false);
+});
+
+test('overlays reject fields the model schema does not declare and renamed models', () => {
+  assert.throws(
+    () => parseOverlay('{"models":{"sonnet46":{"inputPirce":2.7}}}', 'typo.json'),
+    /Overlay typo\.json: ✖ Unknown field inputPirce/,
+  );
+  assert.throws(
+    () =>
+      applyOverlays([
+        { source: 'caps.json', models: { sonnet46: { capabilities: { supportsVison: false } } } },
+      ]),
+    /Unknown field capabilities\.supportsVison/,
+  );
+  assert.throws(
+    () =>
+      applyOverlays([
+        {
+          source: 'image.json',
+          models: { sonnet46: { modalityPricing: { image: { kind: 'flat', tileSize: 512 } } } },
+        },
+      ]),
+    /Unknown field modalityPricing\.image\.tileSize/,
+  );
+  assert.throws(
+    () => applyOverlays([{ source: 'rename.json', models: { sonnet46: { name: 'sonnet47' } } }]),
+    /name sonnet47 does not match registry key sonnet46/,
+  );
+  assert.equal(
+    applyOverlays([{ source: 'same.json', models: { sonnet46: { name: 'sonnet46' } } }]).lookup(
+      'sonnet46',
+    ).name,
+    'sonnet46',
+  );
+});
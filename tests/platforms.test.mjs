@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  MODEL_CONFIGS,
+  ModelProvider,
+  PROVIDER_ENDPOINTS,
+  availableOn,
+  cost,
+  createRegistry,
+  endpointFor,
+  platforms,
+} from '../dist/index.js';
+
+const names = (models) => models.map((m) => m.name);
+
+test('platforms map wire ids per platform, derived from the legacy name fields', () => {
+  assert.equal(platforms('sonnet45').bedrock?.id, 'anthropic.claude-sonnet-4-5-20250929-v1:0');
+  assert.equal(platforms('sonnet45').vertex?.id, 'claude-sonnet-4-5@20250929');
+  assert.equal(platforms('gpt54').direct?.id, 'gpt-5.4-2026-03-05');
+  assert.equal(platforms('gpt54').codex?.id, 'gpt-5.4');
+  assert.equal(platforms('sonnet46').copilot?.id, 'claude-sonnet-4.6');
+  assert.deepEqual(Object.keys(platforms('opus4')), ['vertex']);
+  assert.deepEqual(Object.keys(platforms('kimiCoding')), ['kimi-code']);
+  assert.ok(platforms('kimi3').direct && platforms('kimi3')['kimi-code']);
+  assert.deepEqual(platforms('sonnet3'), {});
+
+  assert.ok(names(availableOn('bedrock')).includes('sonnet4'));
+  for (const name of ['opus46', 'opus46T', 'sonnet46', 'sonnet46T']) {
+    assert.ok(names(availableOn('bedrock')).includes(name), name);
+    assert.ok(names(availableOn('vertex')).includes(name), name);
+  }
+  assert.equal(platforms('sonnet46').copilot?.id, 'claude-sonnet-4.6');
+  assert.ok(names(availableOn('azure')).includes('gpt41'));
+  assert.ok(!names(availableOn('direct')).includes('llama31'));
+  assert.ok(!names(availableOn('direct')).includes('opus4'));
+  assert.ok(names(availableOn('openrouter')).includes('llama31'));
+
+  for (const model of Object.values(MODEL_CONFIGS)) {
+    const map = model.platforms;
+    if (!map || model.retired) continue;
+    assert.equal(map.openrouter?.id, model.openrouterFullName, `${model.name} openrouter id`);
+    assert.equal(map.copilot?.id, model.copilotFullName, `${model.name} copilot id`);
+    assert.equal(map['vscode-lm']?.id, model.vscodeLMFullName, `${model.name} vscode-lm id`);
+  }
+});
+
+test('platform regions filter availability and price overrides apply to cost()', () => {
+  const registry = createRegistry();
+  registry.register({
+    name: 'acmeLlama',
+    label: 'Acme Llama FT',
+    fullName: 'acme/llama-ft-v2',
+    shortName: 'llama-ft-v2',
+    provider: ModelProvider.OTHERS,
+    maxOutputTokens: 8192,
+    contextWindow: 131072,
+    inputPrice: 1,
+    outputPrice: 2,
+    capabilities: DEFAULT_MODEL_CAPABILITIES,
+    openRouterOnly: false,
+    platforms: {
+      direct: { id: 'llama-ft-v2' },
+      bedrock: { id: 'acme.llama-ft-v2:0', regions: ['us-east-1'], inputPrice: 2, outputPrice: 4 },
+    },
+  });
+
+  assert.ok(names(registry.availableOn('bedrock', { region: 'us-east-1' })).includes('acmeLlama'));
+  assert.ok(!names(registry.availableOn('bedrock', { region: 'eu-west-1' })).includes('acmeLlama'));
+  const usage = { input: 1_000_000, output: 1_000_000 };
+  assert.equal(registry.cost('acmeLlama', usage), 3);
+  assert.equal(registry.cost('acmeLlama', usage, { platform: 'bedrock' }), 6);
+  assert.throws(
+    () => registry.cost('acmeLlama', usage, { platform: 'vertex' }),
+    /Model acmeLlama is not available on vertex/,
+  );
+  assert.equal(cost('sonnet45', usage, { platform: 'bedrock' }), cost('sonnet45', usage));
+});
+
+test('endpointFor merges provider defaults with model-level overrides', () => {
+  assert.deepEqual(endpointFor('sonnet46'), {
+    baseUrl: 'https://api.anthropic.com/v1',
+    protocol: 'anthropic-messages',
+    auth: 'x-api-key',
+    envVars: ['ANTHROPIC_API_KEY'],
+  });
+  assert.equal(endpointFor('kimiCoding').baseUrl, 'https://api.kimi.com/coding/v1');
+  assert.equal(endpointFor('o3-deep-research').protocol, 'openai-responses');
+  assert.equal(endpointFor('gpt41').protocol, 'openai-chat');
+  assert.equal(endpointFor('gptoss').baseUrl, 'https://openrouter.ai/api/v1');
+  assert.equal(endpointFor('gemini25p').auth, 'x-goog-api-key');
+
+  for (const provider of Object.values(ModelProvider)) {
+    assert.ok(PROVIDER_ENDPOINTS[provider]?.baseUrl.startsWith('https://'), provider);
+  }
+});
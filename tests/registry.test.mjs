@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  ModelProvider,
+  cost,
+  createRegistry,
+  exists,
+  lookup,
+  resolve,
+  validateRegistry,
+} from '../dist/index.js';
+
+const acmeLlama = {
+  name: 'acmeLlama',
+  label: 'Acme Llama FT',
+  fullName: 'acme/llama-ft-v2',
+  shortName: 'llama-ft-v2',
+  provider: ModelProvider.OTHERS,
+  maxOutputTokens: 8192,
+  contextWindow: 131072,
+  inputPrice: 0.01,
+  outputPrice: 0.02,
+  capabilities: DEFAULT_MODEL_CAPABILITIES,
+  openRouterOnly: false,
+};
+
+test('createRegistry instances register, unregister and override models in isolation', () => {
+  const registry = createRegistry();
+  registry.register(acmeLlama);
+
+  assert.equal(registry.lookup('acmeLlama'), acmeLlama);
+  assert.equal(registry.resolve('llama-ft-v2')?.name, 'acmeLlama');
+  assert.equal(registry.cheapest({ supportsFunctionCalling: true }, { provider: ModelProvider.OTHERS }), acmeLlama);
+  assert.ok(registry.insights().totalModels > 1);
+  assert.throws(() => registry.register(acmeLlama), /already registered: acmeLlama/);
+
+  const patched = registry.override('sonnet46', { inputPrice: 2.7, capabilities: { supportsNativePdf: false } });
+  assert.equal(patched.inputPrice, 2.7);
+  assert.equal(patched.capabilities.supportsNativePdf, false);
+  assert.equal(patched.capabilities.supportsVision, true);
+  assert.ok(registry.cost('sonnet46', { input: 1_000_000, output: 0 }) < cost('sonnet46', { input: 1_000_000, output: 0 }));
+
+  assert.equal(registry.unregister('gpt4o'), true);
+  assert.equal(registry.unregister('gpt4o'), false);
+  assert.equal(registry.exists('gpt4o'), false);
+  assert.throws(() => registry.cost('gpt4o', { input: 1, output: 1 }), /Unknown model: gpt4o/);
+
+  // The built-in registry is untouched
+  assert.equal(lookup('acmeLlama'), undefined);
+  assert.equal(resolve('llama-ft-v2'), undefined);
+  assert.equal(exists('gpt4o'), true);
+  assert.equal(lookup('sonnet46').inputPrice, 3);
+});
+
+test('createRegistry can start from a custom model table', () => {
+  const registry = createRegistry({ acmeLlama });
+  assert.deepEqual(registry.ranked('price').map((m) => m.name), ['acmeLlama']);
+  assert.equal(registry.search('acme llama')[0]?.model.name, 'acmeLlama');
+});
+
+test('registry methods are bound to their instance and never leak into the module helpers', () => {
+  const registry = createRegistry();
+  registry.register(acmeLlama);
+  registry.unregister('gpt4o');
+
+  // A callback running inside a registry method still sees the built-in models
+  const seen = [];
+  registry.where(() => {
+    seen.push([lookup('acmeLlama'), exists('gpt4o')]);
+    return false;
+  });
+  assert.ok(seen.length > 0);
+  assert.ok(seen.every(([custom, builtIn]) => custom === undefined && builtIn === true));
+
+  // Detached methods keep their registry, including through nested helpers
+  const { maxCost, compareCosts, hint, upgradePath } = registry;
+  assert.equal(maxCost('acmeLlama', 1_000_000), 0.01 + (8192 / 1_000_000) * 0.02);
+  assert.equal(compareCosts(['acmeLlama'], { input: 1_000_000, output: 0 })[0].cost, 0.01);
+  assert.equal(hint('acmeLlama'), '131K context, $0.01/$0.02 per 1M tokens');
+  assert.ok(upgradePath('o3').every((m) => m.name !== 'gpt4o'));
+  assert.throws(() => cost('acmeLlama', { input: 1, output: 1 }), /Unknown model: acmeLlama/);
+});
+
+test('register and override reject invalid models and leave the registry unchanged', () => {
+  const registry = createRegistry();
+  const { label: _label, ...unlabeled } = acmeLlama;
+
+  assert.throws(
+    () => registry.register({ ...unlabeled, provider: 'acme' }),
+    /Invalid model acmeLlama: label must be a string; provider acme is not a ModelProvider/,
+  );
+  assert.throws(
+    () => registry.register({ ...acmeLlama, variantOf: 'acmeBase' }),
+    /Invalid model acmeLlama: variantOf names unknown model acmeBase/,
+  );
+  assert.equal(registry.exists('acmeLlama'), false);
+
+  assert.throws(
+    () => registry.override('sonnet46', { capabilities: { maxReasoningEffort: 'medium' } }),
+    /Invalid model sonnet46: max effort medium is below the default high/,
+  );
+  assert.throws(() => registry.override('sonnet46', { inputPrice: '3' }), /inputPrice must be a number/);
+  assert.deepEqual(registry.lookup('sonnet46'), lookup('sonnet46'));
+  assert.deepEqual(registry.validateRegistry(), []);
+});
+
+test('validateRegistry reports semantic invariants the schemas cannot express', () => {
+  assert.deepEqual(validateRegistry(), []);
+
+  const acmeLlamaOld = {
+    ...acmeLlama,
+    name: 'acme-llama-old',
+    retired: true,
+    supersededBy: 'acmeLlama3',
+    capabilities: {
+      ...DEFAULT_MODEL_CAPABILITIES,
+      reasoningEffort: 'high',
+      maxReasoningEffort: 'medium',
+      supportedReasoningEfforts: ['low', 'medium'],
+      supportsDynamicFilteringWebSearch: true,
+      supportsNativeCodeExecution: false,
+    },
+  };
+  const registry = createRegistry({ acmeLlama, acmeLlamaOld });
+
+  assert.deepEqual(
+    registry.validateRegistry().map(({ model, rule, field }) => [model, rule, field]),
+    [
+      ['acmeLlamaOld', 'name-matches-key', 'name'],
+      ['acmeLlamaOld', 'default-effort-supported', 'capabilities.reasoningEffort'],
+      ['acmeLlamaOld', 'max-effort-at-least-default', 'capabilities.maxReasoningEffort'],
+      [
+        'acmeLlamaOld',
+        'dynamic-filtering-needs-code-execution',
+        'capabilities.supportsDynamicFilteringWebSearch',
+      ],
+      ['acmeLlamaOld', 'retired-is-deprecated', 'deprecated'],
+      ['acmeLlamaOld', 'reference-exists', 'supersededBy'],
+    ],
+  );
+  assert.match(
+    validateRegistry({ acmeLlama: { ...acmeLlama, variantOf: 'acmeBase' } })[0].message,
+    /variantOf names unknown model acmeBase/,
+  );
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  MODEL_CONFIGS,
+  ReasoningEffort,
+  effortsFor,
+  normalizeEffort,
+  requestParams,
+} from '../dist/index.js';
+
+test('requestParams shapes effort, thinking and tier for each provider protocol', () => {
+  assert.deepEqual(requestParams('opus5T', { effort: ReasoningEffort.XHIGH }), {
+    thinking: { type: 'adaptive' },
+    output_config: { effort: 'xhigh' },
+  });
+  assert.deepEqual(requestParams('opus5'), { output_config: { effort: 'high' } });
+  assert.deepEqual(requestParams('sonnet45T', { budgetTokens: 8000 }), {
+    thinking: { type: 'enabled', budget_tokens: 8000 },
+  });
+  assert.deepEqual(requestParams('gpt56pro'), { reasoning: { effort: 'medium', mode: 'pro' } });
+  assert.deepEqual(requestParams('gpt56fast'), { reasoning_effort: 'medium', service_tier: 'fast' });
+  assert.deepEqual(requestParams('gpt56', { serviceTier: 'flex', protocol: 'openai-responses' }), {
+    reasoning: { effort: 'medium' },
+    service_tier: 'flex',
+  });
+  assert.deepEqual(requestParams('gemini31p', { effort: ReasoningEffort.LOW }), {
+    generationConfig: { thinkingConfig: { thinkingLevel: 'low' } },
+  });
+  assert.deepEqual(requestParams('gemini25p', { budgetTokens: 2048 }), {
+    generationConfig: { thinkingConfig: { thinkingBudget: 2048 } },
+  });
+  assert.deepEqual(requestParams('deepseekT', { effort: ReasoningEffort.MAX }), {
+    thinking: { type: 'enabled' },
+    reasoning_effort: 'max',
+  });
+  assert.deepEqual(requestParams('kimi26'), { thinking: { type: 'disabled' } });
+  assert.deepEqual(requestParams('gpt41'), {});
+});
+
+test('requestParams rejects combinations the model does not accept', () => {
+  assert.throws(
+    () => requestParams('opus5', { effort: ReasoningEffort.XHIGH }),
+    /^Error: Model opus5 does not support reasoning effort xhigh \(supported: low, medium, high\); opus5T does$/,
+  );
+  assert.throws(
+    () => requestParams('gpt41', { effort: ReasoningEffort.HIGH }),
+    /Model gpt41 does not accept a reasoning effort/,
+  );
+  assert.throws(
+    () => requestParams('sonnet46T', { effort: ReasoningEffort.NONE }),
+    /Model sonnet46T cannot disable reasoning; use sonnet46 for no thinking/,
+  );
+  assert.throws(
+    () => requestParams('sonnet46T', { serviceTier: 'fast' }),
+    /Model sonnet46T has no fast service tier/,
+  );
+  assert.throws(
+    () => requestParams('gpt56pro', { protocol: 'openai-chat' }),
+    /Model gpt56pro needs the Responses API for reasoning mode/,
+  );
+  assert.throws(
+    () => requestParams('sonnet45T', { budgetTokens: 512 }),
+    /thinking budget of at least 1024/,
+  );
+});
+
+test('normalizeEffort maps one effort setting onto every model', () => {
+  assert.deepEqual(effortsFor('opus46T'), ['low', 'medium', 'high', 'max']);
+  assert.deepEqual(effortsFor('gpt52'), ['low', 'medium', 'high', 'xhigh']);
+  assert.deepEqual(effortsFor('gpt41'), []);
+
+  assert.deepEqual(normalizeEffort('opus46T', ReasoningEffort.XHIGH), {
+    requested: 'xhigh',
+    effort: 'high',
+    effective: 'high',
+    adjustment: 'downgrade',
+  });
+  assert.deepEqual(normalizeEffort('deepseekT', ReasoningEffort.MEDIUM), {
+    requested: 'medium',
+    effort: 'medium',
+    effective: 'high',
+    adjustment: 'alias',
+  });
+  assert.equal(normalizeEffort('deepseekproT', ReasoningEffort.MEDIUM).adjustment, 'upgrade');
+  assert.equal(normalizeEffort('gpt41', ReasoningEffort.HIGH).adjustment, 'fixed');
+  assert.equal(normalizeEffort('gpt41', ReasoningEffort.NONE).adjustment, 'exact');
+  assert.deepEqual(requestParams('deepseekT', { effort: ReasoningEffort.MEDIUM }), {
+    thinking: { type: 'enabled' },
+    reasoning_effort: 'medium',
+  });
+
+  for (const model of Object.values(MODEL_CONFIGS)) {
+    for (const effort of Object.values(ReasoningEffort)) {
+      const normalized = normalizeEffort(model, effort);
+      if (normalized.effort === undefined) continue;
+      assert.doesNotThrow(() => requestParams(model, { effort: normalized.effort }), model.name);
+    }
+  }
+});
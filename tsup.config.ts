@@ -1,18 +1,32 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: {
-    index: 'src/index.ts',
-    'providers/index': 'src/providers/index.ts',
-    schemas: 'src/schemas.ts',
+export default defineConfig([
+  {
+    entry: {
+      index: 'src/index.ts',
+      'providers/index': 'src/providers/index.ts',
+      schemas: 'src/schemas.ts',
+      overlays: 'src/overlays.ts',
+    },
+    external: ['zod'],
+    format: ['esm', 'cjs'],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    treeshake: true,
+    minify: false,
+    target: 'node18',
   },
-  external: ['zod'],
-  format: ['esm', 'cjs'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  treeshake: true,
-  minify: false,
-  target: 'node18',
-});
+  {
+    entry: { cli: 'src/cli.ts' },
+    format: ['esm'],
+    banner: { js: '#!/usr/bin/env node' },
+    splitting: false,
+    sourcemap: true,
+    clean: false,
+    treeshake: true,
+    minify: false,
+    target: 'node18',
+  },
+]);